@@ -1,11 +1,26 @@
-import { Effect, Console, Data, Context } from 'effect';
+import { Effect, Console, Data, Context, Cause, Exit } from 'effect';
 
 import { isValidTemplateSelector } from './utils/isValidTemplateSelector';
-import { buildTemplateTree } from './utils/buildTemplateTree';
-import { checkDirectory } from './utils/checkDirectory';
+import {
+  type TemplateTreeNode,
+  buildTemplateGraph,
+} from './utils/buildTemplateTree';
+import {
+  type TemplateSize,
+  type Tokenizer,
+  composeWithinBudget,
+  ensureValidTokenBudget,
+} from './utils/applyTokenBudget';
+import { checkDirectories, checkDirectory } from './utils/checkDirectory';
+import { validateTemplates } from './utils/validateTemplates';
+import {
+  type RequiredVariable,
+  collectRequiredVariables,
+} from './utils/collectRequiredVariables';
 
 import {
   type TemplateVariables,
+  type TemplateVariableValue,
   decodeVariables,
 } from './utils/decodeVariables';
 import {
@@ -13,105 +28,744 @@ import {
   decodeTemplateOverrides,
 } from './utils/decodeTemplateOverrides';
 import { Directory } from './utils/normalizeToRelativeSelector';
+import {
+  type TemplateIndex,
+  type TemplateIndexEntry,
+} from './utils/buildTemplateIndex';
+import {
+  type MosaicDiagnostic,
+  Diagnostics,
+  reportDiagnostic,
+  strictDiagnosticKinds,
+} from './utils/reportDiagnostic';
+import type { SourceMapSegment } from './utils/sourceMap';
+import {
+  type ChatMessage,
+  getTemplateRole,
+  splitIntoMessages,
+} from './utils/composeMessages';
+import {
+  type TemplateBundle,
+  bundleSource,
+  createTemplateBundle,
+  decodeTemplateBundle,
+} from './utils/templateBundle';
+import {
+  type TemplateSource,
+  directorySource,
+  parseLayeredPath,
+} from './utils/templateSource';
+import { splitSectionPath } from './utils/templateSection';
+import { type ContentLayout, Layout } from './utils/layoutContent';
+import {
+  type VariableFilter,
+  Filters,
+  builtInFilters,
+  ensureValidFilterName,
+} from './utils/variableFilters';
+import {
+  type DataFile,
+  type TemplateData,
+  buildTemplateData,
+  haveSameDataFiles,
+  isDataFile,
+} from './utils/buildTemplateData';
+import {
+  type ProvidedVariables,
+  type ResolvedVariables,
+  type VariableResolver,
+  collectTreeVariables,
+  resolveLazyVariables,
+} from './utils/resolveVariables';
+import { reportInvalidDataFiles, resolveProvidedVariables } from './utils/getProvidedVariables';
+import {
+  DEFAULT_DELIMITERS,
+  Syntax,
+  ensureValidDelimiters,
+  restoreLiteralBraces,
+} from './utils/templateSyntax';
 
 // Error Types Definitions
-class InvalidTemplateSelectorError extends Data.TaggedError(
+export class InvalidTemplateSelectorError extends Data.TaggedError(
   'InvalidTemplateSelectorError'
 )<{
   message: string;
 }> {}
 
+// Fails with an InvalidTemplateSelectorError when the root selector is not valid
+const ensureValidTemplateSelector = (templateSelector: string) =>
+  Effect.gen(function* () {
+    const validation = yield* isValidTemplateSelector(templateSelector);
+    if (!validation.valid) {
+      yield* reportDiagnostic({
+        kind: 'invalid-selector',
+        severity: 'error',
+        message: `${templateSelector} is not a valid template selector. Returning empty string.`,
+        path: null,
+        selector: templateSelector,
+        ancestors: [],
+      });
+      return yield* Effect.fail(
+        new InvalidTemplateSelectorError({
+          message: 'Invalid template selector',
+        })
+      );
+    }
+  });
+
+/**
+ * Error raised by strict compositions when at least one problem was found.
+ * Lists every problem found during the composition, not just the first one.
+ *
+ * @property {string} message - Summary of all the problems found
+ * @property {MosaicDiagnostic[]} diagnostics - The offending diagnostics, with severity 'error'
+ */
+export class StrictCompositionError extends Data.TaggedError(
+  'StrictCompositionError'
+)<{
+  message: string;
+  diagnostics: MosaicDiagnostic[];
+}> {}
+
+
+/**
+ * Options accepted when creating a Mosaic instance.
+ *
+ * @property {boolean} [silent] - When true, diagnostics are no longer logged to the console
+ * @property {(diagnostic: MosaicDiagnostic) => void} [onDiagnostic] - Called for every diagnostic reported while composing
+ * @property {boolean} [strict] - When true, compositions fail on missing templates, loops, duplicate ids and unset variables
+ * @property {boolean} [inheritOverrides] - When true, the overrides applied to a template are inherited by every template it includes
+ * @property {Tokenizer} [tokenizer] - How tokens are counted for size reports and budgets, 'characters' by default
+ * @property {ContentLayout} [layout] - How included templates are laid out in the templates including them
+ * @property {[string, string]} [delimiters] - Delimiters of references and variables, e.g. ['<%', '%>'], `{{` and `}}` by default
+ * @property {boolean} [expandFencedCode] - When true, references and variables inside fenced code blocks are expanded
+ */
+export interface MosaicOptions {
+  silent?: boolean;
+  onDiagnostic?: (diagnostic: MosaicDiagnostic) => void;
+  strict?: boolean;
+  inheritOverrides?: boolean;
+  tokenizer?: Tokenizer;
+  layout?: ContentLayout;
+  delimiters?: [string, string];
+  expandFencedCode?: boolean;
+}
+
+/**
+ * Options accepted by a single composition, taking precedence over the instance options.
+ *
+ * @property {boolean} [strict] - When true, this composition fails instead of silently recovering from problems
+ * @property {number} [maxTokens] - Token budget of the composed content: optional templates are trimmed to fit it
+ * @property {Tokenizer} [tokenizer] - How tokens are counted for this composition
+ * @property {ContentLayout} [layout] - Layout options of this composition, merged over the instance ones
+ */
+export interface ComposeOptions {
+  strict?: boolean;
+  maxTokens?: number;
+  tokenizer?: Tokenizer;
+  layout?: ContentLayout;
+}
+
+/**
+ * The result of a detailed composition: the composed content, every diagnostic reported while composing it
+ * and the size in tokens of every included template (with what was trimmed to fit the token budget).
+ */
+export interface ComposeResult {
+  content: string;
+  diagnostics: MosaicDiagnostic[];
+  sizes: TemplateSize[];
+}
+
+/**
+ * The result of a composition with its source map: every range of the composed content
+ * mapped to the template file, line and column, include chain and variable that produced it.
+ */
+export interface SourceMappedComposeResult extends ComposeResult {
+  sourceMap: SourceMapSegment[];
+}
+
+/**
+ * Options of a watch, on top of the options of its compositions.
+ *
+ * @property {(error: unknown) => void} [onError] - Called instead of the callback when a recomposition fails (e.g. in strict mode),
+ * or when watching fails. Without it, the error is reported as a 'watch-failed' diagnostic.
+ */
+export interface WatchOptions extends ComposeOptions {
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * A running watch of a root template, see `Mosaic.watch`.
+ *
+ * @property {() => void} close - Stops the watch; the directory is no longer watched once every watch is closed
+ */
+export interface TemplateWatcher {
+  close: () => void;
+}
+
+// A root template being watched, with the templates its last composition included
+type WatchedRoot = {
+  templateSelector: string;
+  options: WatchOptions;
+  callback: (result: ComposeResult) => void;
+  dependencies: Set<string>;
+};
+
+// Runs an Effect, throwing its typed failure (e.g. a StrictCompositionError) instead of the fiber failure wrapping it
+const runSyncTyped = <A, E>(effect: Effect.Effect<A, E>): A => {
+  const exit = Effect.runSyncExit(effect);
+  if (Exit.isFailure(exit)) throw Cause.squash(exit.cause);
+  return exit.value;
+};
+
+// Runs an asynchronous composition, rejecting with its typed failure instead of the fiber failure wrapping it
+const runCompositionAsync = async <A, E>(effect: Effect.Effect<A, E>): Promise<A> => {
+  const exit = await Effect.runPromiseExit(effect);
+  if (Exit.isFailure(exit)) throw Cause.squash(exit.cause);
+  return exit.value;
+};
+
+// A template tree with its literal braces restored, as they are written in the templates
+const restoreGraphLiterals = (node: TemplateTreeNode): TemplateTreeNode => ({
+  ...node,
+  content: restoreLiteralBraces(node.content),
+  children: node.children?.map(restoreGraphLiterals),
+});
+
+// The template ids of an index, with the paths declaring them
+const getIdPaths = (templateIndex: TemplateIndex) =>
+  JSON.stringify(
+    Object.entries(templateIndex.ids).map(([id, entries]) => [id, entries.map((entry) => entry.path)])
+  );
+
+/**
+ * The result of validating a whole instructions directory.
+ * The directory is valid when no warning or error diagnostics were reported.
+ */
+export interface ValidationReport {
+  valid: boolean;
+  diagnostics: MosaicDiagnostic[];
+}
 
 export class MosaicVariables extends Context.Tag('MosaicVariables')<
   MosaicVariables,
 {
   readonly templateVariables: Effect.Effect<TemplateVariables>;
   readonly templateOverrides: Effect.Effect<TemplateOverrides>;
+  readonly inheritOverrides: Effect.Effect<boolean>;
+  readonly templateData: Effect.Effect<TemplateData>;
+  readonly lazyVariables: Effect.Effect<string[]>;
+  readonly resolveVariables: (names: string[]) => Effect.Effect<string[]>;
 }>() {}
 
 
 // Class Definitions
 export class Mosaic {
-  private instructionsDir: string;
+  private source: TemplateSource;
+  private options: MosaicOptions;
   private variables: TemplateVariables = {};
+  private resolvers: Record<string, VariableResolver> = {};
+  private filters: Record<string, VariableFilter> = {};
   private overrides: TemplateOverrides = {};
+  private templateIndex: TemplateIndex | null = null;
+  private templateData: { files: DataFile[]; data: TemplateData } | null = null;
+  private watchedRoots = new Set<WatchedRoot>();
+  private stopWatching: (() => void) | null = null;
 
   /**
    * Creates a new Mosaic instance.
-   * @param instructionsDir - Path to the directory containing all the markdown files to be parsed and assembled.
-   * This directory should contain the modular instruction templates for expansion.
+   * @param source - Path to the directory containing all the markdown files to be parsed and assembled,
+   * or any other source of templates (see `memorySource` and `compositeSource`).
+   * @param options - Optional settings controlling how diagnostics are reported and how templates are written.
+   * Throws when the given delimiters are not valid.
    */
-  constructor(instructionsDir: string) {
-    this.instructionsDir = instructionsDir;
+  constructor(source: string | TemplateSource, options: MosaicOptions = {}) {
+    if (options.delimiters) Effect.runSync(ensureValidDelimiters(options.delimiters));
+    this.source = typeof source === 'string' ? directorySource(source) : source;
+    this.options = options;
   }
 
-  compose(templateSelector: string): string {
-    // Create the full Effect context
-    const context = Context.empty().pipe(
-      Context.add(MosaicVariables, {
-        templateVariables: Effect.succeed(this.variables),
-        templateOverrides: Effect.succeed(this.overrides),
-      }),
-      Context.add(Directory, {
-        templateDir: Effect.succeed(this.instructionsDir),
-      })
+  /**
+   * Composes the final template from the given root selector.
+   * Problems encountered along the way are reported as diagnostics, see `composeDetailed`.
+   * In strict mode, throws a StrictCompositionError listing every problem found.
+   */
+  compose(templateSelector: string, options: ComposeOptions = {}): string {
+    return this.composeDetailed(templateSelector, options).content;
+  }
+
+  /**
+   * Composes the final template from the given root selector and returns it together with
+   * every diagnostic (missing templates, loops, duplicate ids...) reported during composition.
+   * In strict mode, throws a StrictCompositionError listing every problem found.
+   */
+  composeDetailed(templateSelector: string, options: ComposeOptions = {}): ComposeResult {
+    return runSyncTyped(this.composeEffect(templateSelector, options));
+  }
+
+  /**
+   * Composes the final template from the given root selector and returns it together with its source map,
+   * telling for every range of the output which template file, line and column, include chain
+   * and interpolated variable produced it. In strict mode, throws a StrictCompositionError listing every problem found.
+   */
+  composeWithSourceMap(
+    templateSelector: string,
+    options: ComposeOptions = {}
+  ): SourceMappedComposeResult {
+    const { node, diagnostics, sizes } = runSyncTyped(
+      this.composeTree(templateSelector, options)
     );
+    return { content: node.content, sourceMap: node.sourceMap ?? [], diagnostics, sizes };
+  }
 
-    // Define the full expansion pipeline
-    const pipeline = Effect.gen(function* () {
-      const validation = yield* isValidTemplateSelector(templateSelector);
-      if (!validation.valid) {
-        yield* Console.error(
-          `${templateSelector} is not a valid template selector. Returning empty string.`
-        );
-        return yield* Effect.fail(
-          new InvalidTemplateSelectorError({
-            message: 'Invalid template selector',
-          })
+  /**
+   * Composes the given root selector into role-tagged chat messages, in composition order.
+   * Templates declare their `role` ('system', 'user' or 'assistant') in frontmatter, or switch role within their
+   * content with `<!-- role: user -->` lines; templates without a role take the role of the template including them
+   * ('system' for the root). Adjacent fragments of the same role are merged into a single message.
+   * In strict mode, throws a StrictCompositionError listing every problem found.
+   */
+  composeMessages(templateSelector: string, options: ComposeOptions = {}): ChatMessage[] {
+    const { content, sourceMap } = this.composeWithSourceMap(templateSelector, options);
+    return splitIntoMessages(content, sourceMap, (templatePath) =>
+      // Sections take the role of the template they are selected from
+      getTemplateRole(this.source.read(splitSectionPath(templatePath).templatePath)?.frontmatter)
+    );
+  }
+
+  /**
+   * Composes the final template from the given root selector, awaiting the lazy variables resolved by a promise
+   * (concurrently). In strict mode, rejects with a StrictCompositionError listing every problem found.
+   */
+  async composeAsync(templateSelector: string, options: ComposeOptions = {}): Promise<string> {
+    return (await this.composeDetailedAsync(templateSelector, options)).content;
+  }
+
+  /**
+   * Composes the final template like `composeAsync` and returns it together with every diagnostic reported,
+   * lazy variables that could not be resolved included. In strict mode, rejects with a StrictCompositionError.
+   */
+  async composeDetailedAsync(templateSelector: string, options: ComposeOptions = {}): Promise<ComposeResult> {
+    const { node, diagnostics, sizes } = await runCompositionAsync(
+      this.composeTree(templateSelector, options, true)
+    );
+    return { content: node.content, diagnostics, sizes };
+  }
+
+  /**
+   * Returns the composition of the given root selector as an Effect, without running it.
+   * In strict mode, the Effect fails with a typed StrictCompositionError listing every problem found.
+   */
+  composeEffect(templateSelector: string, options: ComposeOptions = {}) {
+    return this.composeTree(templateSelector, options).pipe(
+      Effect.map(({ node, diagnostics, sizes }) => ({ content: node.content, diagnostics, sizes }))
+    );
+  }
+
+  /**
+   * Builds and expands the template tree of the given root selector, collecting every diagnostic reported.
+   * In strict mode, fails with a StrictCompositionError listing every problem found.
+   */
+  private composeTree(templateSelector: string, options: ComposeOptions, allowAsync = false) {
+    const strict = options.strict ?? this.options.strict ?? false;
+    const budget = {
+      maxTokens: options.maxTokens,
+      tokenizer: options.tokenizer ?? this.options.tokenizer,
+    };
+
+    return Effect.suspend(() => {
+      const diagnostics: MosaicDiagnostic[] = [];
+
+      // Create the full Effect context
+      const context = this.effectContext(diagnostics, {
+        layout: { ...this.options.layout, ...options.layout },
+        resolveLazy: true,
+        allowAsync,
+      });
+
+      // Define the full expansion pipeline
+      const pipeline = Effect.gen(function* () {
+        yield* ensureValidTemplateSelector(templateSelector);
+        yield* ensureValidTokenBudget(budget);
+        yield* reportInvalidDataFiles();
+
+        // Build the template tree, resolve the lazy variables it uses,
+        // then recursively expand and flatten it within the token budget
+        const graph = yield* buildTemplateGraph(templateSelector);
+        yield* resolveProvidedVariables(collectTreeVariables(graph));
+        const { node: finalNode, sizes } = yield* composeWithinBudget(graph, budget);
+
+        // In strict mode, every problem found fails the composition
+        const problems = diagnostics.filter((diagnostic) =>
+          strictDiagnosticKinds.includes(diagnostic.kind)
         );
-      }
+        if (strict && problems.length > 0) {
+          return yield* Effect.fail(
+            new StrictCompositionError({
+              message: [
+                `Composing "${templateSelector}" failed in strict mode with ${problems.length} problem(s):`,
+                ...problems.map((problem) => `- ${problem.message}`),
+              ].join('\n'),
+              diagnostics: problems.map((problem) => ({
+                ...problem,
+                severity: 'error' as const,
+              })),
+            })
+          );
+        }
 
-      // Build the template tree, recursively expand and flatten it
-      const finalNode = yield* buildTemplateTree(templateSelector);
-      return finalNode.content;
+        return { node: finalNode, diagnostics, sizes };
+      });
+
+      // Provide context to the pipeline
+      return Effect.provide(pipeline, context);
     });
+  }
 
-    // Provide context and run the pipeline
-    const result = Effect.runSync(
-      Effect.provide(pipeline, context)
+  /**
+   * Returns the unexpanded reference tree of the given root selector, without composing it.
+   * Every node keeps its path, frontmatter (and id), raw content, variables, the selector it was referenced with,
+   * its ancestors and the references pruned because they would create a loop.
+   * Use `templateGraphToDot` or `templateGraphToMermaid` to render it.
+   */
+  graph(templateSelector: string): TemplateTreeNode {
+    const pipeline = Effect.gen(function* () {
+      yield* ensureValidTemplateSelector(templateSelector);
+      return yield* buildTemplateGraph(templateSelector);
+    });
+
+    return restoreGraphLiterals(runSyncTyped(Effect.provide(pipeline, this.effectContext([]))));
+  }
+
+  /**
+   * Lists every variable the given root template needs, aggregated across its whole reference tree.
+   * Each variable tells which templates use it and whether it is already satisfied
+   * by a path-specific override or by the global variables.
+   */
+  requiredVariables(templateSelector: string): RequiredVariable[] {
+    const pipeline = Effect.gen(function* () {
+      yield* ensureValidTemplateSelector(templateSelector);
+      const graph = yield* buildTemplateGraph(templateSelector);
+      return yield* collectRequiredVariables(graph);
+    });
+
+    return runSyncTyped(Effect.provide(pipeline, this.effectContext([])));
+  }
+
+  /**
+   * Validates every template in the instructions directory at once, instead of discovering problems lazily on compose.
+   * Reports broken references, invalid selectors, duplicate ids, circular reference chains, orphan templates
+   * and variables that are not covered by the provided variables or overrides.
+   */
+  validate(): ValidationReport {
+    const diagnostics: MosaicDiagnostic[] = [];
+    runSyncTyped(Effect.provide(validateTemplates(), this.effectContext(diagnostics)));
+
+    return {
+      valid: diagnostics.every((diagnostic) => diagnostic.severity === 'info'),
+      diagnostics,
+    };
+  }
+
+  /**
+   * Lists every markdown template of the template source, sorted by path.
+   * Each entry contains the relative path, the absolute file path, the frontmatter id (if any) and the parsed frontmatter.
+   */
+  listTemplates(): TemplateIndexEntry[] {
+    return [...this.getTemplateIndex().templates];
+  }
+
+  /**
+   * Watches the template source and recomposes the given root selector whenever a template it includes changes.
+   * The callback receives the composition right away, then again after each change of a file in its dependency set
+   * (every template included by its last composition), or when template ids moved from one file to another.
+   * Only the changed files are parsed again. In strict mode, the first composition throws a StrictCompositionError
+   * and later failures are passed to `onError`. Sources that cannot be watched (bundles, in-memory templates)
+   * never change, so they only emit once.
+   */
+  watch(
+    templateSelector: string,
+    callback: (result: ComposeResult) => void,
+    options: WatchOptions = {}
+  ): TemplateWatcher {
+    const root: WatchedRoot = { templateSelector, options, callback, dependencies: new Set() };
+    this.recompose(root);
+    if (!this.source.watch) return { close: () => {} };
+
+    this.watchedRoots.add(root);
+    this.stopWatching ??= this.source.watch(
+      (changedPaths) => this.onTemplateFilesChanged(changedPaths),
+      (error) => [...this.watchedRoots].forEach((watchedRoot) => this.onWatchError(watchedRoot, error))
+    );
+
+    return {
+      close: () => {
+        this.watchedRoots.delete(root);
+        if (this.watchedRoots.size === 0) {
+          this.stopWatching?.();
+          this.stopWatching = null;
+        }
+      },
+    };
+  }
+
+  // Composes a watched root again, remembering which templates it included
+  private recompose(root: WatchedRoot) {
+    const result = this.composeDetailed(root.templateSelector, root.options);
+    root.dependencies = new Set(result.sizes.map((size) => size.path));
+    root.callback(result);
+  }
+
+  /**
+   * Refreshes the template index after the source changed (paths relative to the source, with their extension)
+   * and recomposes the watched roots depending on the changed files.
+   */
+  private onTemplateFilesChanged(changedPaths: string[]) {
+    const previousIndex = this.templateIndex;
+    this.templateIndex = null;
+    this.templateData = null;
+    const idsMoved =
+      previousIndex !== null && getIdPaths(previousIndex) !== getIdPaths(this.getTemplateIndex());
+    // Data files provide variables to any template
+    const dataChanged = changedPaths.some(isDataFile);
+
+    // A changed directory (renamed or removed) affects every template inside it, in every layer
+    const isAffected = (dependency: string) => {
+      const { basePath } = parseLayeredPath(splitSectionPath(dependency).templatePath);
+      return changedPaths.some(
+        (changed) => changed === `${basePath}.md` || basePath.startsWith(`${changed}/`)
+      );
+    };
+
+    for (const root of [...this.watchedRoots]) {
+      if (!idsMoved && !dataChanged && ![...root.dependencies].some(isAffected)) continue;
+      try {
+        this.recompose(root);
+      } catch (error) {
+        this.onWatchError(root, error);
+      }
+    }
+  }
+
+  // Passes an error of a watched root to its `onError`, reporting it as a diagnostic without one
+  private onWatchError(root: WatchedRoot, error: unknown) {
+    if (root.options.onError) {
+      root.options.onError(error);
+      return;
+    }
+    Effect.runSync(
+      this.diagnosticsService().report({
+        kind: 'watch-failed',
+        severity: 'error',
+        message: `Could not recompose ${root.templateSelector}: ${error instanceof Error ? error.message : String(error)}`,
+        path: null,
+        selector: root.templateSelector,
+        ancestors: [],
+      })
+    );
+  }
+
+  /**
+   * Returns the template index of this instance, building it from its source on first use.
+   * The index is built once per instance (and again when a watched source changes) and shared by every compose and override call.
+   */
+  private getTemplateIndex(): TemplateIndex {
+    if (this.templateIndex === null) {
+      const templates = this.source.list();
+      const ids = [...new Set(templates.flatMap((template) => template.id ?? []))];
+      this.templateIndex = {
+        templates,
+        ids: Object.fromEntries(ids.map((id) => [id, this.source.resolveId(id)])),
+      };
+    }
+    return this.templateIndex;
+  }
+
+  // The variables of the data files of the source, only built again when a data file was added, removed or modified
+  private getTemplateData(): TemplateData {
+    const files = this.source.data?.() ?? [];
+    if (this.templateData === null || !haveSameDataFiles(this.templateData.files, files)) {
+      this.templateData = { files, data: Effect.runSync(buildTemplateData(files)) };
+    }
+    return this.templateData.data;
+  }
+
+  /**
+   * Creates the full Effect context (variables, directory, diagnostics, layout, syntax and filters) used by compositions.
+   * Lazy variables are only resolved by compositions: introspection (graph, required variables, validation)
+   * never calls a resolver, and leaves the conditions testing lazy variables undecided.
+   */
+  private effectContext(
+    diagnostics: MosaicDiagnostic[],
+    {
+      layout = this.options.layout ?? {},
+      resolveLazy = false,
+      allowAsync = false,
+    }: { layout?: ContentLayout; resolveLazy?: boolean; allowAsync?: boolean } = {}
+  ) {
+    // Lazy variables are resolved at most once per context, that is per composition
+    const resolvedVariables: ResolvedVariables = new Map();
+
+    return Context.empty().pipe(
+      Context.add(MosaicVariables, {
+        templateVariables: Effect.sync(() => ({
+          ...this.variables,
+          ...Object.fromEntries(
+            [...resolvedVariables].flatMap(([name, value]) => (value === undefined ? [] : [[name, value]]))
+          ),
+        })),
+        templateOverrides: Effect.succeed(this.overrides),
+        inheritOverrides: Effect.succeed(this.options.inheritOverrides ?? false),
+        templateData: Effect.sync(() => this.getTemplateData()),
+        lazyVariables: Effect.sync(() => Object.keys(this.resolvers)),
+        resolveVariables: (names: string[]) =>
+          resolveLazy
+            ? resolveLazyVariables(this.resolvers, resolvedVariables, names, allowAsync).pipe(Effect.as([]))
+            : Effect.succeed(names.filter((name) => name in this.resolvers)),
+      }),
+      Context.add(Directory, this.directoryService()),
+      Context.add(Diagnostics, this.diagnosticsService(diagnostics)),
+      Context.add(Layout, layout),
+      Context.add(Syntax, {
+        delimiters: this.options.delimiters ?? DEFAULT_DELIMITERS,
+        expandFencedCode: this.options.expandFencedCode ?? false,
+      }),
+      Context.add(Filters, { ...builtInFilters, ...this.filters })
     );
+  }
+
+  private directoryService() {
+    return {
+      templateIndex: Effect.sync(() => this.getTemplateIndex()),
+      readTemplate: (templatePath: string) => Effect.sync(() => this.source.read(templatePath)),
+    };
+  }
+
+  /**
+   * Reports diagnostics to the console (unless silenced) and to the `onDiagnostic` hook.
+   * When a `collected` array is given, each distinct diagnostic is also pushed to it.
+   */
+  private diagnosticsService(collected?: MosaicDiagnostic[]) {
+    const { silent = false, onDiagnostic } = this.options;
+    const seen = new Set<string>();
+
+    return {
+      report: (diagnostic: MosaicDiagnostic) =>
+        Effect.gen(function* () {
+          // The same problem can be found more than once (e.g. a duplicate id referenced twice)
+          const key = JSON.stringify(diagnostic);
+          if (seen.has(key)) return;
+          seen.add(key);
 
-    return result;
+          // Informational diagnostics are only collected, never logged
+          if (!silent && diagnostic.severity !== 'info') {
+            yield* Console.warn(diagnostic.message);
+          }
+          collected?.push(diagnostic);
+          onDiagnostic?.(diagnostic);
+        }),
+    };
   }
 
   /**
    * Creates a new Mosaic instance from a directory of markdown files.
    * @param instructionsDir - Path to the directory that this mosaic will have as a parse base.
+   * @param options - Optional settings, e.g. `{ silent: true, onDiagnostic, strict: true }`.
+   */
+  static fromDirectory(instructionsDir: string, options: MosaicOptions = {}): Mosaic {
+    return Effect.runSync(checkDirectory(instructionsDir, options));
+  }
+
+  /**
+   * Creates a new Mosaic instance from several directories layered on top of each other, the first one on top.
+   * A template path or `#id` is resolved from the first layer having it, so an upper layer (e.g. a tenant)
+   * only holds the templates it replaces. A replacing template can include the one it shadows with `{{ super }}`.
+   * Each included template is reported with the layer it was read from as a 'template-layer' diagnostic.
+   * @param instructionsDirs - Paths to the layered directories, from top to bottom (e.g. `['tenants/acme', 'base']`).
+   * @param options - Optional settings, e.g. `{ silent: true, onDiagnostic, strict: true }`.
    */
-  static fromDirectory(instructionsDir: string): Mosaic {
-    return Effect.runSync(checkDirectory(instructionsDir));
+  static fromDirectories(instructionsDirs: string[], options: MosaicOptions = {}): Mosaic {
+    return Effect.runSync(checkDirectories(instructionsDirs, options));
   }
 
-  provideVariables(variables: TemplateVariables): Mosaic {
-    const decoded = Effect.runSync(decodeVariables(variables));
+  /**
+   * Precompiles every template of a directory (content, frontmatter, id index and normalized references)
+   * and its data files into a single versioned JSON artifact, to compose with `Mosaic.fromBundle` where there is no filesystem.
+   * The bundle `checksum` only depends on the template and data file paths and sources: compare it to the checksum of a fresh bundle
+   * to check a committed bundle still matches its directory.
+   * @param instructionsDir - Path to the directory to bundle.
+   */
+  static bundle(instructionsDir: string): TemplateBundle {
+    const mosaic = Mosaic.fromDirectory(instructionsDir, { silent: true });
+    return Effect.runSync(
+      Effect.provide(createTemplateBundle(mosaic.source.data?.()), mosaic.effectContext([]))
+    );
+  }
+
+  /**
+   * Creates a new Mosaic instance composing from a bundle made by `Mosaic.bundle`, without reading any file.
+   * Compositions are identical to those of the bundled directory. Throws an InvalidBundleError when the bundle
+   * is malformed or was made by another version of the bundle format.
+   * @param bundle - The bundle, or its JSON.
+   * @param options - Optional settings, e.g. `{ silent: true, onDiagnostic, strict: true }`.
+   */
+  static fromBundle(bundle: TemplateBundle | string, options: MosaicOptions = {}): Mosaic {
+    const decoded = runSyncTyped(decodeTemplateBundle(bundle));
+    return new Mosaic(bundleSource(decoded), options);
+  }
+
+  /**
+   * Creates a new Mosaic instance reading its templates from any source: `directorySource(path)`,
+   * `memorySource({ 'agents/main': '...' })`, `compositeSource([...])` or a custom implementation of `TemplateSource`.
+   * @param source - Where the templates are read from.
+   * @param options - Optional settings, e.g. `{ silent: true, onDiagnostic, strict: true }`.
+   */
+  static fromSource(source: TemplateSource, options: MosaicOptions = {}): Mosaic {
+    return new Mosaic(source, options);
+  }
+
+  /**
+   * Provides global variables available to all templates. Chainable.
+   * A variable given as a function is lazy: it is only called when a composed template uses the variable,
+   * once per composition. Functions returning a promise are resolved by `composeAsync`.
+   */
+  provideVariables(variables: ProvidedVariables): Mosaic {
+    const values: Record<string, TemplateVariableValue> = {};
+    const resolvers: Record<string, VariableResolver> = {};
+    for (const [name, value] of Object.entries(variables)) {
+      if (typeof value === 'function') resolvers[name] = value;
+      else values[name] = value;
+    }
+
+    const decoded = Effect.runSync(decodeVariables(values));
+    // A variable provided again replaces its previous value or resolver
+    const omit = <T>(record: Record<string, T>) =>
+      Object.fromEntries(Object.entries(record).filter(([name]) => !(name in variables)));
     this.variables = {
-      ...this.variables,
+      ...omit(this.variables),
       ...decoded,
     };
+    this.resolvers = { ...omit(this.resolvers), ...resolvers };
     return this;
   }
 
   provideOverrides(overrides: TemplateOverrides): Mosaic {
-    const effect = Effect.provideService(
-      decodeTemplateOverrides(overrides),
-      Directory,
-      { templateDir: Effect.succeed(this.instructionsDir) }
-    );
-    const decoded = Effect.runSync(effect);
+    // Keys are kept as written and normalized by every composition, so `#id` keys follow ids moving to another file
+    const decoded = Effect.runSync(decodeTemplateOverrides(overrides));
     this.overrides = {
       ...this.overrides,
       ...decoded,
     };
     return this;
   }
+
+  /**
+   * Registers a filter that variable tags can pipe their value into, e.g. `{{ $price | currency: "EUR" }}`. Chainable.
+   * A filter registered with the name of a built-in one replaces it. Throws when the name could not be written in a tag.
+   */
+  registerFilter(name: string, filter: VariableFilter): Mosaic {
+    Effect.runSync(ensureValidFilterName(name));
+    this.filters = { ...this.filters, [name]: filter };
+    return this;
+  }
 }
@@ -1 +1,48 @@
-export { Mosaic } from './Mosaic';
+export { Mosaic, InvalidTemplateSelectorError, StrictCompositionError } from './Mosaic';
+export type { TemplateIndexEntry } from './utils/buildTemplateIndex';
+export type { TemplateTreeNode } from './utils/buildTemplateTree';
+export type {
+  RequiredVariable,
+  RequiredVariableUsage,
+  VariableSource,
+} from './utils/collectRequiredVariables';
+export {
+  templateGraphToDot,
+  templateGraphToMermaid,
+} from './utils/exportTemplateGraph';
+export type {
+  MosaicOptions,
+  ComposeOptions,
+  ComposeResult,
+  SourceMappedComposeResult,
+  WatchOptions,
+  TemplateWatcher,
+  ValidationReport,
+} from './Mosaic';
+export type {
+  MosaicDiagnostic,
+  DiagnosticKind,
+  DiagnosticSeverity,
+} from './utils/reportDiagnostic';
+export type { SourceMapSegment } from './utils/sourceMap';
+export { InvalidTokenBudgetError } from './utils/applyTokenBudget';
+export type { TemplateSize, Tokenizer } from './utils/applyTokenBudget';
+export type { ContentLayout } from './utils/layoutContent';
+export { InvalidBundleError } from './utils/templateBundle';
+export type { TemplateBundle, BundledTemplate } from './utils/templateBundle';
+export {
+  directorySource,
+  memorySource,
+  compositeSource,
+} from './utils/templateSource';
+export type { TemplateSource } from './utils/templateSource';
+export type { TemplateFile } from './utils/readTemplateFile';
+export type { DataFile } from './utils/buildTemplateData';
+export type { ProvidedVariables, VariableResolver } from './utils/resolveVariables';
+export type { VariableFilter } from './utils/variableFilters';
+export {
+  messagesToOpenAI,
+  messagesToAnthropic,
+  messagesToGemini,
+} from './utils/exportMessages';
+export type { ChatMessage, MessageRole } from './utils/composeMessages';
@@ -0,0 +1,197 @@
+import { Data, Effect } from 'effect';
+
+import { type TemplateTreeNode, expandTemplateGraph } from './buildTemplateTree';
+import { reportDiagnostic } from './reportDiagnostic';
+
+/**
+ * Counts the tokens of a text: one of the built-in estimators or a custom counter function.
+ * - 'characters' - about 4 characters per token
+ * - 'words' - about 3 words per 4 tokens
+ */
+export type Tokenizer = 'characters' | 'words' | ((text: string) => number);
+
+/**
+ * The size of a single included template in a composition.
+ *
+ * @property {string} path - Relative path of the template
+ * @property {string} instance - The chain of slots leading to this inclusion from the root (e.g. "agents/main > rules/limits~1")
+ * @property {string[]} ancestors - Include chain of the template, root first
+ * @property {number} tokens - Tokens of its expanded content, included templates and trimming comprised
+ * @property {number} priority - Its frontmatter `priority` (0 by default), lower priorities are trimmed first
+ * @property {boolean} optional - Its frontmatter `optional`, only optional templates are trimmed
+ * @property {'dropped' | 'truncated' | null} trimmed - How it was trimmed to fit the token budget, null when kept whole
+ */
+export interface TemplateSize {
+  path: string;
+  instance: string;
+  ancestors: string[];
+  tokens: number;
+  priority: number;
+  optional: boolean;
+  trimmed: 'dropped' | 'truncated' | null;
+}
+
+/**
+ * Options of a token budget.
+ *
+ * @property {number} [maxTokens] - Maximum number of tokens of the composed content, no trimming when undefined
+ * @property {Tokenizer} [tokenizer] - How tokens are counted, 'characters' by default
+ */
+export interface TokenBudget {
+  maxTokens?: number;
+  tokenizer?: Tokenizer;
+}
+
+// Error Definitions
+export class InvalidTokenBudgetError extends Data.TaggedError('InvalidTokenBudgetError')<{
+  message: string;
+}> {}
+
+/**
+ * Fails with an InvalidTokenBudgetError when `maxTokens` is not a finite number of tokens, 0 or more.
+ */
+export const ensureValidTokenBudget = ({ maxTokens }: TokenBudget) =>
+  Effect.gen(function* () {
+    if (maxTokens !== undefined && !(Number.isFinite(maxTokens) && maxTokens >= 0)) {
+      return yield* Effect.fail(
+        new InvalidTokenBudgetError({
+          message: `Invalid token budget: ${maxTokens}. maxTokens must be a finite number of tokens, 0 or more.`,
+        })
+      );
+    }
+  });
+
+const tokenCounters: Record<'characters' | 'words', (text: string) => number> = {
+  characters: (text) => Math.ceil(text.length / 4),
+  words: (text) => Math.ceil(((text.match(/\S+/g)?.length ?? 0) * 4) / 3),
+};
+
+// Returns the token counter of a tokenizer
+export const getTokenCounter = (tokenizer: Tokenizer = 'characters') =>
+  typeof tokenizer === 'function' ? tokenizer : tokenCounters[tokenizer];
+
+// Longest prefix of a text within the given tokens, cut at a line break (or else a whitespace) when possible
+const truncateToTokens = (
+  text: string,
+  maxTokens: number,
+  countTokens: (text: string) => number
+) => {
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (countTokens(text.slice(0, middle)) <= maxTokens) low = middle;
+    else high = middle - 1;
+  }
+
+  const prefix = text.slice(0, low);
+  if (low === text.length) return prefix;
+
+  const lineBreak = prefix.lastIndexOf('\n');
+  if (lineBreak > 0) return prefix.slice(0, lineBreak + 1);
+  const whitespace = prefix.search(/\s\S*$/);
+  return whitespace > 0 ? prefix.slice(0, whitespace) : prefix;
+};
+
+// Keeps the first characters of an expanded node, clipping its source map to them
+const keepContent = (node: TemplateTreeNode, content: string): TemplateTreeNode => ({
+  ...node,
+  content,
+  sourceMap: (node.sourceMap ?? [])
+    .filter((segment) => segment.start < content.length)
+    .map((segment) => ({ ...segment, end: Math.min(segment.end, content.length) })),
+});
+
+/**
+ * Expands a template tree (as built by `buildTemplateGraph`), measuring every included template.
+ * When the composed content exceeds `maxTokens`, optional templates (frontmatter `optional: true`) are trimmed,
+ * lowest `priority` first and, at the same priority, the last expanded first: dropped when they are smaller
+ * than the excess, truncated otherwise. Each cut is reported as a 'budget-trimmed' diagnostic, and a composition
+ * still over budget once every optional template was trimmed as a 'budget-exceeded' diagnostic.
+ */
+export const composeWithinBudget = (root: TemplateTreeNode, budget: TokenBudget = {}) =>
+  Effect.gen(function* () {
+    const { maxTokens } = budget;
+    const countTokens = getTokenCounter(budget.tokenizer);
+
+    // Instance key -> tokens kept (0 drops the template)
+    const trims = new Map<string, number>();
+
+    const expand = () => {
+      const sizes: TemplateSize[] = [];
+      return expandTemplateGraph(root, (expandedNode, instance) => {
+        const keep = trims.get(instance);
+        const trimmedNode =
+          keep === undefined
+            ? expandedNode
+            : keepContent(
+                expandedNode,
+                keep === 0 ? '' : truncateToTokens(expandedNode.content, keep, countTokens)
+              );
+
+        sizes.push({
+          path: expandedNode.path,
+          instance,
+          ancestors: expandedNode.ancestors,
+          tokens: countTokens(trimmedNode.content),
+          priority: Number(expandedNode.frontmatter?.priority ?? 0) || 0,
+          optional: expandedNode.frontmatter?.optional === true,
+          trimmed: keep === undefined ? null : keep === 0 ? 'dropped' : 'truncated',
+        });
+        return trimmedNode;
+      }).pipe(Effect.map((node) => ({ node, sizes })));
+    };
+
+    let { node, sizes } = yield* expand();
+    if (maxTokens === undefined) return { node, sizes };
+
+    // Trim one optional template at a time, expanding again to measure the result
+    while (countTokens(node.content) > maxTokens) {
+      const isInsideDropped = (instance: string) =>
+        [...trims].some(([key, keep]) => keep === 0 && instance.startsWith(`${key} > `));
+      const candidate = sizes
+        .map((size, order) => ({ size, order }))
+        .filter(
+          ({ size }) =>
+            size.optional &&
+            size.instance !== root.slot &&
+            !trims.has(size.instance) &&
+            !isInsideDropped(size.instance)
+        )
+        .sort((a, b) => a.size.priority - b.size.priority || b.order - a.order)[0]?.size;
+      if (candidate === undefined) break;
+
+      const excess = countTokens(node.content) - maxTokens;
+      trims.set(candidate.instance, Math.max(candidate.tokens - excess, 0));
+      ({ node, sizes } = yield* expand());
+    }
+
+    for (const size of sizes) {
+      if (size.trimmed === null) continue;
+      yield* reportDiagnostic({
+        kind: 'budget-trimmed',
+        severity: 'info',
+        message:
+          size.trimmed === 'dropped'
+            ? `Dropped ${size.path} (priority ${size.priority}) to fit the budget of ${maxTokens} tokens.`
+            : `Truncated ${size.path} (priority ${size.priority}) to ${size.tokens} tokens to fit the budget of ${maxTokens} tokens.`,
+        path: size.path,
+        selector: size.instance,
+        ancestors: size.ancestors,
+      });
+    }
+
+    const totalTokens = countTokens(node.content);
+    if (totalTokens > maxTokens) {
+      yield* reportDiagnostic({
+        kind: 'budget-exceeded',
+        severity: 'warning',
+        message: `${root.path} has ${totalTokens} tokens, over the budget of ${maxTokens} tokens, and no optional template is left to trim.`,
+        path: root.path,
+        selector: root.selector,
+        ancestors: [],
+      });
+    }
+
+    return { node, sizes };
+  });
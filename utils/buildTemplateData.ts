@@ -0,0 +1,197 @@
+import path from 'path';
+import fs from 'fs';
+import fg from 'fast-glob';
+import yaml from 'js-yaml';
+import { Effect, Either, Schema } from 'effect';
+
+import {
+  type TemplateVariables,
+  type TemplateVariableValue,
+  TemplateVariableValueSchema,
+} from './decodeVariables';
+import { splitSectionPath } from './templateSection';
+
+/**
+ * A data file of an instructions directory (see `isDataFile`), not parsed yet.
+ *
+ * @property {string} path - Relative path with its extension (e.g., "data/products.yaml")
+ * @property {string} filePath - Path of the file, for warnings
+ * @property {string} source - The raw content of the file
+ * @property {number} [mtimeMs] - Modification time of the file when it was read, for files read from a directory
+ */
+export interface DataFile {
+  path: string;
+  filePath: string;
+  source: string;
+  mtimeMs?: number;
+}
+
+/**
+ * Data files read from a directory, keyed by absolute file path.
+ * An entry is only reused while the modification time of its file is unchanged.
+ */
+export type DataFileCache = Map<string, DataFile>;
+
+/**
+ * The variables read from the data files of an instructions directory.
+ *
+ * @property {TemplateVariables} namespaces - Every data file, nested by its path (e.g. `data.products` for "data/products.yaml")
+ * @property {Record<string, TemplateVariables>} directoryVariables - The defaults of each directory declaring `_variables.yaml`
+ * (or `_variables.json`), by directory path ('' for the root)
+ * @property {InvalidDataFile[]} invalidFiles - The data files that could not be read, and were ignored
+ */
+export interface TemplateData {
+  namespaces: TemplateVariables;
+  directoryVariables: Record<string, TemplateVariables>;
+  invalidFiles: InvalidDataFile[];
+}
+
+/**
+ * A data file that could not be read.
+ *
+ * @property {string} filePath - Path of the file
+ * @property {string} reason - Why it could not be read (e.g. the YAML or JSON syntax error)
+ */
+export interface InvalidDataFile {
+  filePath: string;
+  reason: string;
+}
+
+/**
+ * Name of the data files declaring defaults for every template of their directory (and of its subdirectories).
+ */
+export const DIRECTORY_VARIABLES_FILE = '_variables';
+
+/**
+ * Directory of the data files read as variable namespaces, at the root of the instructions directory.
+ */
+export const DATA_DIRECTORY = 'data';
+
+const dataFileRegex = /\.(ya?ml|json)$/;
+
+export const hasDataFileExtension = (filePath: string) => dataFileRegex.test(filePath);
+
+// Other YAML and JSON files of the instructions directory (e.g. tool configurations) are not data
+const dataFilePatterns = [`${DATA_DIRECTORY}/**/*.{yaml,yml,json}`, `**/${DIRECTORY_VARIABLES_FILE}.{yaml,yml,json}`];
+
+/**
+ * Tells whether a relative path is a data file: a YAML or JSON file of the data directory, or a `_variables` file.
+ */
+export const isDataFile = (filePath: string) =>
+  hasDataFileExtension(filePath) &&
+  (filePath.startsWith(`${DATA_DIRECTORY}/`) || path.posix.basename(getDataPath(filePath)) === DIRECTORY_VARIABLES_FILE);
+
+// The path of a data file without its extension (e.g. "data/products")
+export const getDataPath = (filePath: string) => filePath.replace(dataFileRegex, '');
+
+/**
+ * Lists the relative paths of every data file of a directory (see `isDataFile`), sorted.
+ */
+export const listDataFiles = (instructionsDir: string) =>
+  fg.sync(dataFilePatterns, { cwd: path.resolve(process.cwd(), instructionsDir), onlyFiles: true }).sort();
+
+/**
+ * Reads a data file of a directory by its relative path, reusing the cached read when the file was not modified since.
+ * Returns null when the file does not exist.
+ */
+export const readDataFile = (instructionsDir: string, file: string, cache?: DataFileCache): DataFile | null => {
+  const filePath = path.join(path.resolve(process.cwd(), instructionsDir), file);
+  const stats = fs.statSync(filePath, { throwIfNoEntry: false });
+  if (!stats?.isFile()) {
+    cache?.delete(filePath);
+    return null;
+  }
+
+  const cached = cache?.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs) return cached;
+
+  const dataFile = { path: file, filePath, source: fs.readFileSync(filePath, 'utf-8'), mtimeMs: stats.mtimeMs };
+  cache?.set(filePath, dataFile);
+  return dataFile;
+};
+
+/**
+ * Tells whether two lists of data files have the same paths and sources, so the data built from one holds for the other.
+ */
+export const haveSameDataFiles = (files: DataFile[], otherFiles: DataFile[]) =>
+  files.length === otherFiles.length &&
+  files.every((file, index) => file.path === otherFiles[index].path && file.source === otherFiles[index].source);
+
+// Parses a data file by its extension, an empty YAML file holding no variables
+const parseDataFile = ({ path: file, source }: DataFile): unknown =>
+  file.endsWith('.json') ? JSON.parse(source) : (yaml.safeLoad(source, { filename: file }) ?? {});
+
+// The first line of a parse error, without the colon introducing the quote of the file that follows it
+const getParseErrorReason = (error: unknown) =>
+  (error instanceof Error ? error.message : String(error)).split('\n')[0].replace(/:$/, '');
+
+const isRecord = (value: unknown): value is Record<string, TemplateVariableValue> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Sets a value at a dotted path of nested records, merging it with the records already there
+const setNamespace = (namespaces: Record<string, TemplateVariableValue>, keys: string[], value: TemplateVariableValue) => {
+  const [key, ...rest] = keys;
+  if (rest.length === 0) {
+    namespaces[key] = isRecord(namespaces[key]) && isRecord(value) ? { ...namespaces[key], ...value } : value;
+    return;
+  }
+  const child = isRecord(namespaces[key]) ? { ...namespaces[key] } : {};
+  setNamespace(child, rest, value);
+  namespaces[key] = child;
+};
+
+/**
+ * Parses data files into variable namespaces and directory defaults.
+ * Files that are not valid (or hold values that cannot be variables, like nulls) are ignored,
+ * and listed to be reported by every composition (see `reportInvalidDataFiles`).
+ */
+export const buildTemplateData = (files: DataFile[]) =>
+  Effect.sync(() => {
+    const namespaces: Record<string, TemplateVariableValue> = {};
+    const directoryVariables: Record<string, TemplateVariables> = {};
+    const invalidFiles: InvalidDataFile[] = [];
+
+    for (const file of files) {
+      const dataPath = getDataPath(file.path);
+      const isDirectoryVariables = path.posix.basename(dataPath) === DIRECTORY_VARIABLES_FILE;
+      const parsed = Either.try({ try: () => parseDataFile(file), catch: getParseErrorReason });
+      if (Either.isLeft(parsed)) {
+        invalidFiles.push({ filePath: file.filePath, reason: parsed.left });
+        continue;
+      }
+      const decoded = Schema.decodeUnknownEither(TemplateVariableValueSchema)(parsed.right);
+      if (Either.isLeft(decoded)) {
+        invalidFiles.push({ filePath: file.filePath, reason: 'it holds values that cannot be variables' });
+        continue;
+      }
+      // Directory defaults are variables by name
+      if (isDirectoryVariables && !isRecord(decoded.right)) {
+        invalidFiles.push({ filePath: file.filePath, reason: 'directory defaults must map variable names to values' });
+        continue;
+      }
+
+      if (isDirectoryVariables) {
+        const directory = path.posix.dirname(dataPath);
+        directoryVariables[directory === '.' ? '' : directory] = decoded.right as TemplateVariables;
+      } else {
+        setNamespace(namespaces, dataPath.split('/'), decoded.right);
+      }
+    }
+
+    return { namespaces, directoryVariables, invalidFiles } satisfies TemplateData;
+  });
+
+export const EMPTY_TEMPLATE_DATA: TemplateData = { namespaces: {}, directoryVariables: {}, invalidFiles: [] };
+
+/**
+ * The variables the data files provide to a template: the data namespaces, then the directory defaults
+ * of the root and of each directory down to its own, the nearest taking precedence.
+ */
+export const getDataVariables = (data: TemplateData, templatePath: string) => {
+  const directories = splitSectionPath(templatePath).templatePath.split('/').slice(0, -1);
+  let variables: TemplateVariables = { ...data.namespaces, ...data.directoryVariables[''] };
+  for (let depth = 1; depth <= directories.length; depth++) {
+    variables = { ...variables, ...data.directoryVariables[directories.slice(0, depth).join('/')] };
+  }
+  return variables;
+};
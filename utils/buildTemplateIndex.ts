@@ -0,0 +1,84 @@
+import path from 'path';
+import fg from 'fast-glob';
+import { Effect } from 'effect';
+
+import { type TemplateCache, readTemplateFile } from './readTemplateFile';
+
+/**
+ * A single markdown template discovered in the instructions directory.
+ *
+ * @property {string} path - Normalized relative path without extension (e.g., "agents/main-agent")
+ * @property {string} filePath - Absolute path to the markdown file on disk
+ * @property {string | null} id - The frontmatter `id`, if the template declares one
+ * @property {Record<string, any> | null} frontmatter - Parsed YAML frontmatter data
+ */
+export interface TemplateIndexEntry {
+  path: string;
+  filePath: string;
+  id: string | null;
+  frontmatter: Record<string, any> | null;
+}
+
+/**
+ * In-memory index of every markdown template in a directory.
+ * Templates are sorted by path, so lookups (and duplicate id resolution) are deterministic.
+ *
+ * @property {TemplateIndexEntry[]} templates - All templates, sorted by path
+ * @property {Record<string, TemplateIndexEntry[]>} ids - Templates grouped by frontmatter id, in path order
+ */
+export interface TemplateIndex {
+  templates: TemplateIndexEntry[];
+  ids: Record<string, TemplateIndexEntry[]>;
+}
+
+// Creates the index entry of a template, taking its id from the frontmatter
+export const createTemplateIndexEntry = (
+  templatePath: string,
+  filePath: string,
+  frontmatter: Record<string, any> | null
+): TemplateIndexEntry => ({
+  path: templatePath,
+  filePath,
+  id: frontmatter && typeof frontmatter.id === 'string' ? frontmatter.id : null,
+  frontmatter,
+});
+
+/**
+ * Builds a TemplateIndex from templates sorted by path, grouping them by frontmatter id.
+ */
+export const indexTemplates = (templates: TemplateIndexEntry[]): TemplateIndex => {
+  const ids: Record<string, TemplateIndexEntry[]> = {};
+  for (const template of templates) {
+    if (template.id !== null) {
+      (ids[template.id] ??= []).push(template);
+    }
+  }
+  return { templates, ids };
+};
+
+// Parses the frontmatter of a single file, null when the YAML is invalid (reported when the template is used)
+const readFrontmatter = (filePath: string, cache?: TemplateCache) =>
+  Effect.sync(() => readTemplateFile(filePath, cache)?.frontmatter ?? null);
+
+/**
+ * Scans a directory for all `.md` files and builds a TemplateIndex from their paths and frontmatter.
+ * This replaces per-lookup filesystem searches: the index is meant to be built once and reused for every `#id` resolution.
+ * With a template cache, files that were not modified since they were last parsed are not read again.
+ */
+export const buildTemplateIndex = (instructionsDir: string, cache?: TemplateCache) =>
+  Effect.gen(function* () {
+    const absInstructionsDir = path.resolve(process.cwd(), instructionsDir);
+    const files = yield* Effect.sync(() =>
+      fg.sync('**/*.md', { cwd: absInstructionsDir, onlyFiles: true }).sort()
+    );
+
+    const templates = yield* Effect.forEach(files, (file) =>
+      Effect.gen(function* () {
+        const filePath = path.join(absInstructionsDir, file);
+        const frontmatter = yield* readFrontmatter(filePath, cache);
+        return createTemplateIndexEntry(file.replace(/\.md$/, ''), filePath, frontmatter);
+      })
+    );
+
+    return indexTemplates(templates);
+  });
@@ -1,22 +1,42 @@
 // Module Imports
 import Mustache from "mustache";
-import { Effect, Console, pipe, Data, Context, Option } from "effect";
+import { Effect, pipe, Data, Option } from "effect";
 
 // Disable mustache's HTML escaping globally, as we are working with markdown
 Mustache.escape = (text) => text;
 
 // Util Imports
-import {
-  parseMarkdown,
-  extractReferencesFromContent,
-} from "./parseMarkdownTemplate";
+import { parseMarkdown } from "./parseMarkdownTemplate";
 import { ParsedMarkdownTemplate } from "./parseMarkdownTemplate";
 
 // Context Imports
 import { MosaicVariables } from "../Mosaic";
-import type { TemplateVariables } from "../utils/decodeVariables";
+import type {
+  TemplateVariables,
+  TemplateVariableValue,
+} from "../utils/decodeVariables";
 import type { TemplateOverrides } from "../utils/decodeTemplateOverrides";
 import { normalizeOverridesPaths } from "../utils/normalizeOverridesPaths";
+import { resolveTemplateOverrides } from "../utils/resolveOverrides";
+import { getProvidedVariables } from "../utils/getProvidedVariables";
+import { getDataVariables } from "../utils/buildTemplateData";
+import {
+  type SourceMapSegment,
+  renderWithSourceMap,
+  replaceInOrigin,
+} from "../utils/sourceMap";
+import { reportDiagnostic } from "../utils/reportDiagnostic";
+import { extendToStandaloneLine, getLayout } from "../utils/layoutContent";
+import { getDefaultedVariables, getFilters } from "../utils/variableFilters";
+import {
+  getVariableDeclarations,
+  getDeclaredDefaults,
+  checkDeclaredVariables,
+} from "../utils/checkVariableDeclarations";
+import {
+  Directory,
+  normalizeToRelativeSelector,
+} from "../utils/normalizeToRelativeSelector";
 
 /**
  * Represents a node in the template tree structure.
@@ -25,12 +45,24 @@ import { normalizeOverridesPaths } from "../utils/normalizeOverridesPaths";
  * @interface TemplateTreeNode
  * @extends ParsedMarkdownTemplate
  * @property {string} path - The relative path identifier for this template node
+ * @property {string} selector - The selector this node was referenced with, as written by its parent (or passed as root)
  * @property {string[]} ancestors - Array of ancestor paths used for loop detection during traversal
+ * @property {string[]} prunedReferences - References removed from this node because they would create a loop
+ * @property {string} slot - The content slot of the parent this node expands into (e.g. "rules/limits~1")
+ * @property {TemplateVariables} arguments - Arguments passed to this node by its slot, merged with the ones inherited from its ancestors
+ * @property {TemplateVariables} inheritedOverrides - Overrides inherited from its ancestors, when override inheritance is enabled
+ * @property {SourceMapSegment[]} [sourceMap] - Once expanded, maps every range of the content to the template, line and variable that produced it
  * @property {TemplateTreeNode[]} [children] - Optional array of child nodes that this template references
  */
-interface TemplateTreeNode extends ParsedMarkdownTemplate {
+export interface TemplateTreeNode extends ParsedMarkdownTemplate {
   path: string;
+  selector: string;
   ancestors: string[];
+  prunedReferences: string[];
+  slot: string;
+  arguments: TemplateVariables;
+  inheritedOverrides: TemplateVariables;
+  sourceMap?: SourceMapSegment[];
   children?: TemplateTreeNode[];
 }
 
@@ -59,6 +91,7 @@ class LoopDetectedError extends Data.TaggedError("LoopDetectedError")<{
 const removeReferenceFromNode = (
   templateNode: TemplateTreeNode,
   referencesToRemove: string[],
+  collapseBlankLines = false,
 ) => {
   /**
    * Utility function to escape regex special characters in a string.
@@ -70,18 +103,44 @@ const removeReferenceFromNode = (
   const newReferences = templateNode.references.filter(
     (ref) => !referencesToRemove.includes(ref),
   );
+  const newSlots = Object.fromEntries(
+    Object.entries(templateNode.slots).filter(
+      ([, slot]) => !referencesToRemove.includes(slot.reference),
+    ),
+  );
   let newContent = templateNode.content;
+  let newOrigin = templateNode.origin;
   for (const refToRemove of referencesToRemove) {
-    // Remove all occurrences of {{ ...refToRemove... }} with arbitrary whitespace
-    const regex = new RegExp(`{{\\s*${escapeRegExp(refToRemove)}\\s*}}`, "g");
-    newContent = newContent.replace(regex, "");
+    // Remove all occurrences of {{ ...refToRemove... }} (and its numbered slots) with arbitrary whitespace
+    const regex = new RegExp(
+      `{{\\s*${escapeRegExp(refToRemove)}(~\\d+)?\\s*}}`,
+      "g",
+    );
+    const content = newContent;
+    const replacements = [...content.matchAll(regex)].map((match) => ({
+      ...(collapseBlankLines
+        ? extendToStandaloneLine(content, match.index, match.index + match[0].length)
+        : { start: match.index, end: match.index + match[0].length }),
+      replacement: "",
+    }));
+    for (let i = replacements.length - 1; i >= 0; i--) {
+      const { start, end } = replacements[i];
+      newContent = newContent.slice(0, start) + newContent.slice(end);
+    }
+    newOrigin = replaceInOrigin(newOrigin, replacements);
   }
-  return { ...templateNode, references: newReferences, content: newContent };
+  return {
+    ...templateNode,
+    references: newReferences,
+    slots: newSlots,
+    content: newContent,
+    origin: newOrigin,
+  };
 };
 
 /**
  * Filters out circular references from a template node to prevent infinite loops during expansion.
- * Detects and removes both self-references and ancestor loops, logging warnings for each removal.
+ * Detects and removes both self-references and ancestor loops, reporting a diagnostic for each removal.
  *
  * @param {TemplateTreeNode} templateNode - The template node to check for circular references
  * @returns {Effect.Effect<TemplateTreeNode>} An Effect that yields a template node with all circular references removed
@@ -90,33 +149,52 @@ const filterLoopedReferences = (templateNode: TemplateTreeNode) =>
   Effect.gen(function* () {
     const ancestors = templateNode.ancestors;
     const currentPath = templateNode.path;
+    const { collapseBlankLines } = yield* getLayout;
 
     // Remove self-references if present
     // Behavior: If a template reference is discovered to be a self-reference, or a loop in the ancestors
-    // it is removed from the content of the node and a warning is logged.
+    // it is removed from the content of the node and a diagnostic is reported.
     let filteredNode = templateNode;
     if (filteredNode.references.includes(currentPath)) {
-      yield* Console.warn(
-        `[LoopDetectedError] Self-reference detected in references at ${currentPath}`,
-      );
-      yield* Console.warn(`Removing self-reference...`);
-      filteredNode = removeReferenceFromNode(filteredNode, [currentPath]);
+      yield* reportDiagnostic({
+        kind: "self-reference",
+        severity: "warning",
+        message: `[LoopDetectedError] Self-reference detected in references at ${currentPath}. Removing self-reference...`,
+        path: currentPath,
+        selector: currentPath,
+        ancestors,
+      });
+      filteredNode = removeReferenceFromNode(filteredNode, [currentPath], collapseBlankLines);
     }
 
     // Check for ancestor loops and remove any references that would create cycles
     const loopedReferences = filteredNode.references.filter((ref) =>
       ancestors.includes(ref),
     );
+    for (const loopedReference of loopedReferences) {
+      yield* reportDiagnostic({
+        kind: "ancestor-loop",
+        severity: "warning",
+        message: `[LoopDetectedError] Loop detected in template! at ${currentPath} with reference: ${loopedReference}. Removing looped reference...`,
+        path: currentPath,
+        selector: loopedReference,
+        ancestors,
+      });
+    }
     if (loopedReferences.length > 0) {
-      yield* Console.warn(
-        `[LoopDetectedError] Loop detected in template! at ${currentPath} with references: ${loopedReferences.join(
-          ", ",
-        )}`,
+      filteredNode = removeReferenceFromNode(
+        filteredNode,
+        loopedReferences,
+        collapseBlankLines,
       );
-      yield* Console.warn(`Removing looped references...`);
-      filteredNode = removeReferenceFromNode(filteredNode, loopedReferences);
     }
 
+    // Keep track of the pruned edges, so they can still be inspected
+    const prunedReferences = templateNode.references.filter(
+      (ref) => !filteredNode.references.includes(ref),
+    );
+    filteredNode = { ...filteredNode, prunedReferences };
+
     return filteredNode;
   });
 
@@ -126,188 +204,307 @@ const filterLoopedReferences = (templateNode: TemplateTreeNode) =>
  * This function takes a root selector (the identifier for a template node) and an optional list of ancestor selectors.
  * It parses the template, then applies loop detection and cleanup logic using the provided ancestors list.
  * Any self-references or ancestor loops in the node's `references` array are detected and removed,
- * ensuring the returned node is free from circular references. Warnings are logged for any loops that are found and removed.
- * Note: The ancestors list is used only for loop detection and is not attached to the returned node.
+ * ensuring the returned node is free from circular references. Diagnostics are reported for any loops that are found and removed.
+ * Note: The ancestors list is used for loop detection and diagnostics, and is attached to the returned node.
  *
  * @param {string} rootSelector - The selector identifying the root template node to process.
  * @param {string[]} [ancestors=[]] - An array of ancestor selectors representing the traversal path to this node (used for loop detection only).
+ * @param {TemplateVariables} [args={}] - Arguments passed to this node by the slot including it (and inherited from its ancestors).
+ * @param {TemplateVariables} [inheritedOverrides={}] - Overrides inherited from its ancestors.
  * @returns {Effect.Effect<TemplateTreeNode>} An Effect that yields a TemplateTreeNode with all reference and ancestor loops removed.
  */
 export const getNodeFromSelector = (
   rootSelector: string,
   ancestors: string[] = [],
+  args: TemplateVariables = {},
+  inheritedOverrides: TemplateVariables = {},
 ) =>
   pipe(
-    parseMarkdown(rootSelector),
-    Effect.map((templateNode) => ({ ...templateNode, ancestors })),
+    parseMarkdown(rootSelector, ancestors, {
+      arguments: args,
+      inheritedOverrides,
+    }),
+    Effect.map((templateNode) => ({
+      ...templateNode,
+      selector: rootSelector,
+      ancestors,
+      prunedReferences: [],
+      slot: rootSelector,
+      arguments: args,
+      inheritedOverrides,
+    })),
     Effect.flatMap(filterLoopedReferences),
   );
 
 /**
  * Attaches child nodes to a parent template node by resolving all its references.
- * Creates child TemplateTreeNode instances for each reference in the parent node,
- * passing the current ancestor chain for loop detection.
- * Each child's content is expanded with its own path-specific variables before attachment.
+ * Creates child TemplateTreeNode instances for each content slot in the parent node,
+ * passing the current ancestor chain for loop detection, and recursively attaches their own children.
+ * Since every child is parsed from its own location, relative references inside it resolve against that child's path.
+ * A reference included with different arguments gets one child per slot; arguments are inherited by the child's descendants.
+ * When override inheritance is enabled, the overrides applied to the parent are inherited by its children as well.
  *
  * @param {TemplateTreeNode} rootNode - The parent node to attach children to
- * @returns {Effect.Effect<TemplateTreeNode>} An Effect that yields the parent node with populated children array
+ * @returns {Effect.Effect<TemplateTreeNode>} An Effect that yields the parent node with a fully populated children tree
  */
-const attachChildren = (rootNode: TemplateTreeNode) =>
+const attachChildren = (
+  rootNode: TemplateTreeNode,
+): Effect.Effect<TemplateTreeNode, never, Directory> =>
   Effect.gen(function* () {
-    const references = rootNode.references;
-    const children = yield* Effect.forEach(references, (ref) =>
-      Effect.gen(function* () {
-        // Get the child node
-        const childNode = yield* getNodeFromSelector(ref, [
-          ...rootNode.ancestors,
-          rootNode.path,
-        ]);
-
-        // Expand the child's content with its own path-specific variables
-        const childTemplateVariables = yield* extractTemplateVariables(
-          childNode.path,
-        );
-        const expandedContent = yield* Effect.sync(() =>
-          Mustache.render(childNode.content, childTemplateVariables),
-        );
-
-        // Return child with expanded content
-        return { ...childNode, content: expandedContent };
-      }),
+    const slots = Object.entries(rootNode.slots).filter(([, slot]) =>
+      rootNode.references.includes(slot.reference),
+    );
+
+    // Overrides applied to this node, passed down to its children in inheritance mode
+    const { overrides, inheritOverrides } = yield* getProvidedVariables();
+    const inheritedOverrides = inheritOverrides
+      ? {
+          ...rootNode.inheritedOverrides,
+          ...resolveTemplateOverrides(overrides, rootNode),
+        }
+      : {};
+
+    const children = yield* Effect.forEach(slots, ([slotKey, { reference: ref, arguments: args }]) =>
+      pipe(
+        getNodeFromSelector(
+          ref,
+          [...rootNode.ancestors, rootNode.path],
+          { ...rootNode.arguments, ...args },
+          inheritedOverrides,
+        ),
+        // Keep the selector as the parent wrote it
+        Effect.map((childNode) => ({
+          ...childNode,
+          selector: rootNode.selectors[ref] ?? ref,
+          slot: slotKey,
+        })),
+        Effect.flatMap(attachChildren),
+      ),
     );
     return { ...rootNode, children };
   });
 
-/**
- * Expands and flattens a template node until no more references remain using Effect.loop.
- * This function loops through: expand children → flatten content → repeat until done.
- *
- * @param node - The template node to process
- * @returns Effect that yields the fully expanded and flattened node
- */
-const expandAndFlattenRecursively = (node: TemplateTreeNode) =>
-  Effect.gen(function* () {
-    let currentNode = node;
-
-    // Loop while there are still references to expand
-    while (currentNode.references && currentNode.references.length > 0) {
-      // Step 1: Expand children for current references
-      const nodeWithChildren = yield* attachChildren(currentNode);
-
-      // Step 2: Flatten children content into parent
-      currentNode = yield* flattenChildrenAndExpandContent(nodeWithChildren);
-    }
-
-    // Perform a final variable expansion on the fully composed content
-    const templateVariables = yield* extractTemplateVariables(currentNode.path);
-    const finalContent = Mustache.render(currentNode.content, templateVariables);
-
-    return { ...currentNode, content: finalContent };
-  });
 
 /**
  * Extracts template variables from the MosaicVariables context and merges them with any overrides.
  * Returns a combined variables object that can be used for mustache templating.
  * Variable names are prefixed with '$' to match the template syntax (e.g., 'numberOfAttempts' becomes '$numberOfAttempts').
  *
- * Path-specific overrides take precedence over global variables when the currentPath matches a normalized override key.
+ * Precedence, from lowest to highest: the data files (namespaces, then `_variables` defaults of its directories),
+ * the defaults declared in the template frontmatter, global variables,
+ * overrides inherited from ancestors, the arguments passed by the including slot, and the overrides
+ * matching the template itself (`tag:` keys, then globs and directories, then its exact path).
  *
- * @param currentPath - The current template path to check for overrides
+ * @param templateNode - The current template node, with its path, frontmatter (tags), arguments and inherited overrides
+ * @param defaults - Default values declared in the template frontmatter
  * @returns Effect that yields the merged template variables with $ prefixes
  */
-const extractTemplateVariables = (currentPath: string) =>
+const extractTemplateVariables = (
+  templateNode: TemplateTreeNode,
+  defaults: TemplateVariables = {},
+) =>
   Effect.gen(function* () {
     // Try to get MosaicVariables from context, but don't fail if not provided
     const mosaicVariables = yield* Effect.serviceOption(MosaicVariables);
 
     return Option.isNone(mosaicVariables)
-      ? {} // No variables provided, return empty object
+      ? prefixVariables({ ...defaults, ...templateNode.arguments }) // No variables provided, only the declared defaults and arguments apply
       : yield* Effect.gen(function* () {
           const variables = yield* mosaicVariables.value.templateVariables;
           const overrides = yield* mosaicVariables.value.templateOverrides;
+          const data = yield* mosaicVariables.value.templateData;
 
           // Normalize override paths from ID/special syntax to relative paths
           // This converts keys like "#special-rules" to "general/rules/special-rules"
           const normalizedOverrides = yield* normalizeOverridesPaths(overrides);
 
-          // Check if there are any overrides for the current path
-          const pathOverrides = normalizedOverrides[currentPath] || {};
-
-          // Merge base variables with path-specific overrides (overrides take precedence)
-          const mergedVariables = { ...variables, ...pathOverrides };
-
-          // Add $ prefix to variable names to match template syntax
-          const prefixedVariables: Record<string, string | number> = {};
-          for (const [key, value] of Object.entries(mergedVariables)) {
-            prefixedVariables[`$${key}`] = value;
-          }
-
-          return prefixedVariables;
+          // Merge every override key matching the current template (exact path, globs, directories and tags)
+          const pathOverrides = resolveTemplateOverrides(
+            normalizedOverrides,
+            templateNode,
+          );
+
+          // Merge data files, declared defaults, base variables, inherited overrides, arguments and path-specific overrides (overrides take precedence)
+          const mergedVariables = {
+            ...getDataVariables(data, templateNode.path),
+            ...defaults,
+            ...variables,
+            ...templateNode.inheritedOverrides,
+            ...templateNode.arguments,
+            ...pathOverrides,
+          };
+
+          return prefixVariables(mergedVariables);
         });
   });
 
+// Add $ prefix to variable names to match template syntax
+const prefixVariables = (variables: TemplateVariables) => {
+  const prefixedVariables: Record<string, TemplateVariableValue> = {};
+  for (const [key, value] of Object.entries(variables)) {
+    prefixedVariables[`$${key}`] = value;
+  }
+  return prefixedVariables;
+};
+
+/**
+ * Called with every expanded node (before it is integrated into its parent) and its instance key,
+ * the chain of slots leading to it from the root (e.g. "agents/main > rules/limits~1").
+ * Returns the node to integrate, e.g. with its content trimmed to fit a token budget.
+ */
+export type ExpandedNodeHook = (
+  expandedNode: TemplateTreeNode,
+  instanceKey: string,
+) => TemplateTreeNode;
+
 /**
  * Expands the content of a parent node using mustache templating with its children's content and template variables.
- * After expansion, children are cleared and new references are extracted from the expanded content.
- * Template variables are extracted per child path to ensure path-specific overrides are applied correctly.
+ * Children are flattened first (depth-first), so each child's content is expanded with its own path-specific variables
+ * before being inserted into the parent. After expansion, children and references are cleared.
  *
  * @param rootNode - The parent node with children to be expanded
- * @returns Effect that yields the expanded node with new references from expanded content
+ * @param onExpanded - Hook called with every expanded node before it is integrated into its parent
+ * @param instanceKey - The chain of slots leading to this node from the root
+ * @returns Effect that yields the expanded node with all of its children integrated into its content
  */
-const flattenChildrenAndExpandContent = (rootNode: TemplateTreeNode) =>
+const flattenChildrenAndExpandContent = (
+  rootNode: TemplateTreeNode,
+  onExpanded: ExpandedNodeHook = (expandedNode) => expandedNode,
+  instanceKey: string = rootNode.slot,
+): Effect.Effect<TemplateTreeNode, never, Directory> =>
   Effect.gen(function* () {
-    const children = rootNode.children ?? [];
-
-    // If no children, return the node as-is
-    if (children.length === 0) {
-      return rootNode;
-    }
+    // Flatten every child subtree before integrating it into this node
+    const children = yield* Effect.forEach(rootNode.children ?? [], (child) =>
+      flattenChildrenAndExpandContent(
+        child,
+        onExpanded,
+        `${instanceKey} > ${child.slot}`,
+      ),
+    );
 
-    // Create mustache context from children: { "path": "content" }
-    const mustacheContext: Record<string, string | number> = {};
+    // Create mustache context from children: { "slot": "content" }
+    const mustacheContext: Record<string, TemplateVariableValue> = {};
     for (const child of children) {
-      mustacheContext[child.path] = child.content;
+      mustacheContext[child.slot] = child.content;
     }
 
-    // Extract template variables for the root node to expand its own content
-    const templateVariables = yield* extractTemplateVariables(rootNode.path);
+    // Extract template variables for the root node to expand its own content,
+    // falling back to the defaults declared in its frontmatter
+    const declarations = yield* getVariableDeclarations(rootNode);
+    const templateVariables = yield* extractTemplateVariables(
+      rootNode,
+      getDeclaredDefaults(declarations),
+    );
+    const missingRequired = yield* checkDeclaredVariables(
+      rootNode,
+      declarations,
+      (name) => templateVariables[`$${name}`],
+    );
+
+    // Variables without a value (or with an empty one) render as empty strings,
+    // unless every tag using them gives a default value
+    const defaulted = getDefaultedVariables(rootNode.content);
+    for (const variable of new Set(rootNode.variables)) {
+      if (missingRequired.includes(variable)) continue; // Already reported as missing
+      if (defaulted.includes(variable)) continue;
+      const value = templateVariables[`$${variable}`];
+      if (value === undefined || value === "") {
+        yield* reportDiagnostic({
+          kind: "unset-variable",
+          severity: "info",
+          message: `Variable "$${variable}" is not set in ${rootNode.path}. Rendering an empty string...`,
+          path: rootNode.path,
+          selector: `$${variable}`,
+          ancestors: rootNode.ancestors,
+        });
+      }
+    }
 
     // Combine children content and template variables for mustache context
     const combinedContext = { ...templateVariables, ...mustacheContext };
 
-    // Expand parent content using mustache with both children content and variables
-    const expandedContent = yield* Effect.sync(() =>
-      Mustache.render(rootNode.content, combinedContext),
+    // Expand parent content using mustache with both children content and variables,
+    // carrying the source maps of the children into the source map of the parent,
+    // laid out as the composition asks (headings, indentation, blank lines)
+    const layout = yield* getLayout;
+    const filters = yield* getFilters;
+    const {
+      content: expandedContent,
+      sourceMap,
+      filterFailures,
+    } = yield* Effect.sync(() =>
+      renderWithSourceMap(rootNode, combinedContext, children, layout, filters),
     );
 
-    // Extract and normalize references from the expanded content
-    const { references: newReferences, content: finalContent } =
-      yield* extractReferencesFromContent(expandedContent, {
-        currentPath: rootNode.path,
+    // Filters that could not be applied are skipped, the value is rendered without them
+    for (const { variable, filter, reason } of filterFailures) {
+      yield* reportDiagnostic({
+        kind: "filter-failed",
+        severity: "warning",
+        message:
+          reason === null
+            ? `Filter "${filter}" does not exist in ${rootNode.path}. Rendering "${variable}" without it...`
+            : `Filter "${filter}" failed on "${variable}" in ${rootNode.path}: ${reason}. Rendering "${variable}" without it...`,
+        path: rootNode.path,
+        selector: `${variable} | ${filter}`,
         ancestors: rootNode.ancestors,
-        removeLoopedReferences: true,
       });
+    }
 
-    // Return expanded node with cleared children and new references from expanded content
-    return {
-      ...rootNode,
-      content: finalContent,
-      references: newReferences,
-      children: [], // Clear children after integration
-    };
+    // Return expanded node with cleared children and references
+    return onExpanded(
+      {
+        ...rootNode,
+        content: expandedContent,
+        sourceMap,
+        references: [],
+        children: [], // Clear children after integration
+      },
+      instanceKey,
+    );
   });
 
 // Programs
 
+/**
+ * Builds the unexpanded template tree of a root selector: every node keeps its raw content,
+ * variables, written selectors and pruned loop edges, and its children are attached recursively.
+ *
+ * @param rootSelector - The selector identifying the root template of the graph
+ * @returns Effect that yields the root TemplateTreeNode with its full children hierarchy
+ */
+export const buildTemplateGraph = (rootSelector: string) =>
+  pipe(
+    // Resolve '#id' and '@root' selectors to a relative path before parsing
+    normalizeToRelativeSelector(rootSelector),
+    Effect.flatMap((rootPath) => getNodeFromSelector(rootPath ?? rootSelector)),
+    Effect.map((rootNode) => ({ ...rootNode, selector: rootSelector })),
+    Effect.flatMap(attachChildren),
+  );
+
 /**
  * Builds a complete template tree by recursively expanding and flattening all references.
  * Takes a root selector and returns a fully resolved template node with all content expanded.
+ * The full reference tree is attached first, then flattened bottom-up into the root content.
  *
  * @param rootSelector - The selector identifying the root template to build
  * @returns Effect that yields a fully expanded TemplateTreeNode with all references resolved
  */
 export const buildTemplateTree = (rootSelector: string) =>
   pipe(
-    getNodeFromSelector(rootSelector),
-    Effect.andThen(expandAndFlattenRecursively),
+    buildTemplateGraph(rootSelector),
+    Effect.flatMap((rootNode) => expandTemplateGraph(rootNode)),
   );
+
+/**
+ * Expands and flattens a template tree built by `buildTemplateGraph` into its root content.
+ * The optional hook is called with every expanded node before it is integrated into its parent.
+ *
+ * @param rootNode - The root of an unexpanded template tree
+ * @param onExpanded - Hook called with every expanded node and its instance key
+ * @returns Effect that yields a fully expanded TemplateTreeNode
+ */
+export const expandTemplateGraph = (
+  rootNode: TemplateTreeNode,
+  onExpanded?: ExpandedNodeHook,
+) => flattenChildrenAndExpandContent(rootNode, onExpanded);
@@ -1,14 +1,15 @@
 import path from 'path';
 import fs from 'fs';
 import { Effect, Data } from 'effect';
-import { Mosaic } from '../Mosaic';
+import { Mosaic, type MosaicOptions } from '../Mosaic';
+import { compositeSource, directorySource } from './templateSource';
 
 // Error Types
 class DirectoryNotFoundError extends Data.TaggedError('DirectoryNotFoundError')<{ message: string }> {}
 class ItemNotADirectoryError extends Data.TaggedError('ItemNotADirectoryError')<{ message: string }> {}
 
-// Function
-export const checkDirectory = (instructionsDir: string) =>
+// Fails when the instructions directory does not exist or is not a directory
+const ensureDirectory = (instructionsDir: string) =>
     Effect.gen(function* () {
         const absInstructionsDir = path.resolve(process.cwd(), instructionsDir);
 
@@ -21,6 +22,18 @@ export const checkDirectory = (instructionsDir: string) =>
         if (!fs.statSync(absInstructionsDir).isDirectory()) {
             return yield* Effect.fail(new ItemNotADirectoryError({ message: `Item is not a directory: ${absInstructionsDir}` }));
         }
+    });
 
-        return new Mosaic(instructionsDir);
+// Function
+export const checkDirectory = (instructionsDir: string, options: MosaicOptions = {}) =>
+    Effect.gen(function* () {
+        yield* ensureDirectory(instructionsDir);
+        return new Mosaic(instructionsDir, options);
+    });
+
+// Checks every layer before layering them, the first one on top
+export const checkDirectories = (instructionsDirs: string[], options: MosaicOptions = {}) =>
+    Effect.gen(function* () {
+        yield* Effect.forEach(instructionsDirs, ensureDirectory);
+        return new Mosaic(compositeSource(instructionsDirs.map(directorySource)), options);
     });
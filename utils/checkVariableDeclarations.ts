@@ -0,0 +1,95 @@
+import { Effect } from 'effect';
+
+import {
+  type TemplateVariables,
+  type VariableDeclarations,
+  decodeVariableDeclarations,
+  isValidVariableValue,
+} from './decodeVariables';
+import { reportDiagnostic } from './reportDiagnostic';
+
+// The parts of a template node needed to locate declaration diagnostics
+type DeclaringTemplate = {
+  path: string;
+  frontmatter: Record<string, any> | null;
+  ancestors: string[];
+};
+
+/**
+ * Reads the variables declared in the `variables` block of a template frontmatter.
+ * Invalid declarations are reported as an 'invalid-variable-declaration' diagnostic and ignored.
+ */
+export const getVariableDeclarations = (template: DeclaringTemplate) =>
+  Effect.gen(function* () {
+    const declarations = template.frontmatter?.variables;
+    if (declarations === undefined) return {} as VariableDeclarations;
+
+    return yield* decodeVariableDeclarations(declarations).pipe(
+      Effect.catchAll(() =>
+        reportDiagnostic({
+          kind: 'invalid-variable-declaration',
+          severity: 'warning',
+          message: `The variables declared in the frontmatter of ${template.path} are not valid. Ignoring them...`,
+          path: template.path,
+          selector: template.path,
+          ancestors: template.ancestors,
+        }).pipe(Effect.as({} as VariableDeclarations))
+      )
+    );
+  });
+
+/**
+ * Returns the default values of the declared variables, to be applied below provided variables and overrides.
+ */
+export const getDeclaredDefaults = (declarations: VariableDeclarations): TemplateVariables =>
+  Object.fromEntries(
+    Object.entries(declarations).flatMap(([name, declaration]) =>
+      declaration.default !== undefined ? [[name, declaration.default]] : []
+    )
+  );
+
+/**
+ * Checks the final values of the declared variables of a template, reporting a diagnostic for
+ * each required variable without a value ('missing-required-variable') and each value that does not
+ * match its declared type ('invalid-variable-type'). Returns the names of the missing required variables.
+ */
+export const checkDeclaredVariables = (
+  template: DeclaringTemplate,
+  declarations: VariableDeclarations,
+  getValue: (name: string) => unknown
+) =>
+  Effect.gen(function* () {
+    const missing: string[] = [];
+
+    for (const [name, declaration] of Object.entries(declarations)) {
+      const value = getValue(name);
+
+      if (value === undefined || value === '') {
+        if (declaration.required) {
+          missing.push(name);
+          yield* reportDiagnostic({
+            kind: 'missing-required-variable',
+            severity: 'warning',
+            message: `Required variable "$${name}" has no value in ${template.path}. Rendering an empty string...`,
+            path: template.path,
+            selector: `$${name}`,
+            ancestors: template.ancestors,
+          });
+        }
+        continue;
+      }
+
+      if (!isValidVariableValue(declaration, value)) {
+        yield* reportDiagnostic({
+          kind: 'invalid-variable-type',
+          severity: 'warning',
+          message: `Variable "$${name}" in ${template.path} should be of type ${declaration.type}, got ${JSON.stringify(value)}.`,
+          path: template.path,
+          selector: `$${name}`,
+          ancestors: template.ancestors,
+        });
+      }
+    }
+
+    return missing;
+  });
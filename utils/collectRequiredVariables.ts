@@ -0,0 +1,103 @@
+import { Effect } from 'effect';
+
+import type { TemplateTreeNode } from './buildTemplateTree';
+import { getProvidedVariables } from './getProvidedVariables';
+import { resolveTemplateOverrides } from './resolveOverrides';
+import { getDataVariables } from './buildTemplateData';
+import {
+  getVariableDeclarations,
+  getDeclaredDefaults,
+} from './checkVariableDeclarations';
+
+/**
+ * Where the value of a variable comes from for a given template:
+ * a path-specific override, an argument passed by the slot including it, the global variables,
+ * a default declared in the template frontmatter, a data file of the instructions directory, or nowhere (null).
+ */
+export type VariableSource = 'override' | 'argument' | 'variables' | 'default' | 'data' | null;
+
+/**
+ * A template of the reference tree using a variable.
+ *
+ * @property {string} path - Relative path of the template using the variable
+ * @property {VariableSource} satisfiedBy - Where the value for this template comes from, null if it is not provided
+ */
+export interface RequiredVariableUsage {
+  path: string;
+  satisfiedBy: VariableSource;
+}
+
+/**
+ * A variable needed to compose a root template.
+ *
+ * @property {string} name - Variable name, without the '$' prefix
+ * @property {RequiredVariableUsage[]} usages - Every template of the tree using the variable, once per way its inclusions
+ * satisfy it (e.g. a template included with and without an argument has two usages)
+ * @property {boolean} satisfied - True when every usage already has a value
+ */
+export interface RequiredVariable {
+  name: string;
+  usages: RequiredVariableUsage[];
+  satisfied: boolean;
+}
+
+// Collects every node of a tree, depth-first, in reference order: a template included several times
+// is collected once per inclusion, as each one has its own arguments and inherited overrides
+const collectNodes = (node: TemplateTreeNode, nodes: TemplateTreeNode[] = []) => {
+  nodes.push(node);
+  for (const child of node.children ?? []) collectNodes(child, nodes);
+  return nodes;
+};
+
+/**
+ * Aggregates the variables used across a whole reference tree (as built by `buildTemplateGraph`),
+ * telling which template each one comes from and whether it is already satisfied by an override (matching or inherited),
+ * by an argument of the slot including the template, by the global variables (lazy ones are not resolved, only assumed to be set),
+ * by a default declared in the template frontmatter or by a data file. Empty strings do not satisfy a variable.
+ */
+export const collectRequiredVariables = (root: TemplateTreeNode) =>
+  Effect.gen(function* () {
+    const { variables, overrides, data, lazyVariables } = yield* getProvidedVariables();
+    const isSet = (value: unknown) => value !== undefined && value !== '';
+
+    const requiredVariables = new Map<string, RequiredVariable>();
+    for (const node of collectNodes(root)) {
+      const defaults = getDeclaredDefaults(yield* getVariableDeclarations(node));
+      const pathOverrides = resolveTemplateOverrides(overrides, node);
+      const dataVariables = getDataVariables(data, node.path);
+
+      for (const name of new Set(node.variables)) {
+        const satisfiedBy: VariableSource = isSet(pathOverrides[name])
+          ? 'override'
+          : isSet(node.arguments[name])
+            ? 'argument'
+            : isSet(node.inheritedOverrides[name])
+              ? 'override'
+              : isSet(variables[name]) || lazyVariables.includes(name)
+                ? 'variables'
+                : isSet(defaults[name])
+                  ? 'default'
+                  : isSet(dataVariables[name])
+                    ? 'data'
+                    : null;
+
+        const requiredVariable = requiredVariables.get(name) ?? {
+          name,
+          usages: [],
+          satisfied: true,
+        };
+        // Inclusions of the same template satisfying the variable the same way are a single usage
+        if (
+          !requiredVariable.usages.some(
+            (usage) => usage.path === node.path && usage.satisfiedBy === satisfiedBy
+          )
+        ) {
+          requiredVariable.usages.push({ path: node.path, satisfiedBy });
+        }
+        requiredVariable.satisfied &&= satisfiedBy !== null;
+        requiredVariables.set(name, requiredVariable);
+      }
+    }
+
+    return [...requiredVariables.values()];
+  });
@@ -0,0 +1,80 @@
+import type { SourceMapSegment } from './sourceMap';
+
+export type MessageRole = 'system' | 'user' | 'assistant';
+
+/**
+ * A single role-tagged message of a composed prompt.
+ *
+ * @property {MessageRole} role - Who the message is from
+ * @property {string} content - The text of the message
+ */
+export interface ChatMessage {
+  role: MessageRole;
+  content: string;
+}
+
+const messageRoles: MessageRole[] = ['system', 'user', 'assistant'];
+
+// A role section marker, alone on its line: <!-- role: user -->
+const roleMarkerRegex = /^[ \t]*<!--\s*role:\s*(system|user|assistant)\s*-->[ \t]*\r?\n?$/;
+
+/**
+ * Reads the role a template declares in its frontmatter, null when it declares none (or an unknown one).
+ */
+export const getTemplateRole = (frontmatter: Record<string, any> | null | undefined) =>
+  messageRoles.includes(frontmatter?.role) ? (frontmatter!.role as MessageRole) : null;
+
+/**
+ * Splits a composed content into role-tagged messages, using its source map to know which template produced each range.
+ * A range takes the role of its template: the last role section marker (`<!-- role: user -->`) written before it
+ * in the template, otherwise the frontmatter `role` of the template, otherwise the role of the template including it.
+ * The root defaults to 'system'. Markers are removed, adjacent fragments of the same role are merged
+ * and messages are trimmed, blank ones being dropped.
+ */
+export const splitIntoMessages = (
+  content: string,
+  sourceMap: SourceMapSegment[],
+  getRole: (templatePath: string) => MessageRole | null
+): ChatMessage[] => {
+  // The templates of the current include chain, root first, with their current role
+  const frames: { path: string; role: MessageRole }[] = [];
+  const currentRole = () => frames.at(-1)?.role ?? 'system';
+
+  const fragments: ChatMessage[] = [];
+  const append = (role: MessageRole, text: string) => fragments.push({ role, content: text });
+
+  let position = 0;
+  for (const segment of sourceMap) {
+    if (segment.start > position) append(currentRole(), content.slice(position, segment.start));
+
+    // Leave the templates that ended and enter the ones that start
+    const chain = [...segment.ancestors, segment.path];
+    let common = 0;
+    while (common < frames.length && common < chain.length && frames[common].path === chain[common]) {
+      common++;
+    }
+    frames.splice(common);
+    for (const path of chain.slice(common)) {
+      frames.push({ path, role: getRole(path) ?? currentRole() });
+    }
+
+    const text = content.slice(segment.start, segment.end);
+    const marker = segment.variable === null ? roleMarkerRegex.exec(text) : null;
+    if (marker) frames[frames.length - 1].role = marker[1] as MessageRole;
+    else append(currentRole(), text);
+    position = segment.end;
+  }
+  if (position < content.length) append(currentRole(), content.slice(position));
+
+  // Blank fragments do not start messages: their whitespace stays with the previous one
+  const messages: ChatMessage[] = [];
+  for (const fragment of fragments) {
+    const last = messages.at(-1);
+    const isBlank = fragment.content.trim() === '';
+    if (isBlank && last === undefined) continue;
+    if (isBlank || last?.role === fragment.role) last!.content += fragment.content;
+    else messages.push({ ...fragment });
+  }
+
+  return messages.map((message) => ({ ...message, content: message.content.trim() }));
+};
@@ -1,7 +1,6 @@
 import { Effect, Schema, Either, Data } from 'effect';
 
 import { TemplateVariablesSchema } from './decodeVariables';
-import { normalizeOverridesPaths } from './normalizeOverridesPaths';
 
 // Schema Definitions
 const TemplateOverridesSchema = Schema.Record({
@@ -31,7 +30,5 @@ export const decodeTemplateOverrides = (overrides: TemplateOverrides) =>
       );
     }
 
-    const normalizedOverrides = yield* normalizeOverridesPaths(decoded.right);
-
-    return normalizedOverrides;
+    return decoded.right;
   });
@@ -1,12 +1,32 @@
 import { Data, Effect, Either, Schema } from 'effect';
 
+// Type Definitions
+export type TemplateVariableValue =
+  | string
+  | number
+  | boolean
+  | ReadonlyArray<TemplateVariableValue>
+  | { readonly [key: string]: TemplateVariableValue };
+
 // Schema Definitions
+// Values can be scalars, arrays or nested records (e.g. a list of tools or a user profile)
+export const TemplateVariableValueSchema: Schema.Schema<TemplateVariableValue> =
+  Schema.Union(
+    Schema.String,
+    Schema.Number,
+    Schema.Boolean,
+    Schema.Array(Schema.suspend(() => TemplateVariableValueSchema)),
+    Schema.Record({
+      key: Schema.String,
+      value: Schema.suspend(() => TemplateVariableValueSchema),
+    })
+  );
+
 export const TemplateVariablesSchema = Schema.Record({
   key: Schema.String,
-  value: Schema.Union(Schema.String, Schema.Number),
+  value: TemplateVariableValueSchema,
 });
 
-// Type Definitions
 export type TemplateVariables = typeof TemplateVariablesSchema.Type;
 
 // Error Definitions
@@ -30,3 +50,75 @@ export const decodeVariables = (variables: TemplateVariables) =>
 
     return decoded.right;
   });
+
+// Variable Declaration Schema Definitions
+const VariableTypeSchema = Schema.Literal(
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'object'
+);
+
+export type VariableType = typeof VariableTypeSchema.Type;
+
+// The schema a provided value must satisfy for each declarable type
+const variableTypeSchemas: Record<VariableType, Schema.Schema<any>> = {
+  string: Schema.String,
+  number: Schema.Number,
+  boolean: Schema.Boolean,
+  array: Schema.Array(Schema.Unknown),
+  object: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+};
+
+const VariableDeclarationSchema = Schema.Struct({
+  type: Schema.optional(VariableTypeSchema),
+  default: Schema.optional(TemplateVariableValueSchema),
+  required: Schema.optional(Schema.Boolean),
+  description: Schema.optional(Schema.String),
+});
+
+export const VariableDeclarationsSchema = Schema.Record({
+  key: Schema.String,
+  value: VariableDeclarationSchema,
+});
+
+export type VariableDeclaration = typeof VariableDeclarationSchema.Type;
+export type VariableDeclarations = typeof VariableDeclarationsSchema.Type;
+
+class VariableDeclarationsDecodeError extends Data.TaggedError(
+  'VariableDeclarationsDecodeError'
+)<{
+  message: string;
+}> {}
+
+/**
+ * Decodes the `variables` block of a template frontmatter, where authors declare the variables a template expects:
+ * `{ maxAttempts: { type: 'number', default: 3, required: true, description: '...' } }`.
+ */
+export const decodeVariableDeclarations = (declarations: unknown) =>
+  Effect.gen(function* () {
+    const decoded = Schema.decodeUnknownEither(VariableDeclarationsSchema)(
+      declarations
+    );
+
+    if (Either.isLeft(decoded)) {
+      return yield* Effect.fail(
+        new VariableDeclarationsDecodeError({
+          message: 'Variable declarations are not valid.',
+        })
+      );
+    }
+
+    return decoded.right;
+  });
+
+/**
+ * Checks whether a value matches the declared type of a variable. Variables declared without a type accept any value.
+ */
+export const isValidVariableValue = (
+  declaration: VariableDeclaration,
+  value: unknown
+) =>
+  declaration.type === undefined ||
+  Schema.is(variableTypeSchemas[declaration.type])(value);
@@ -0,0 +1,75 @@
+import type { TemplateVariables, TemplateVariableValue } from './decodeVariables';
+import { parseLiteral } from './parseReferenceSlot';
+
+/**
+ * A parsed reference condition: a variable (with optional dotted access), optionally negated with `!`
+ * and optionally compared to a literal with `==` or `!=`.
+ */
+export interface ReferenceCondition {
+  negated: boolean;
+  variable: string; // Base variable name, without $
+  accessPath: string[]; // Dotted access into the variable value, e.g. ['role'] for $user.role
+  operator: '==' | '!=' | null;
+  value: string | number | boolean | null;
+}
+
+const conditionRegex =
+  /^(!)?\s*\$([a-zA-Z0-9_\-]+)((?:\.[a-zA-Z0-9_\-]+)*)(?:\s*(==|!=)\s*(.+))?$/;
+
+/**
+ * Parses a reference condition, returning null when it is not valid.
+ * Supported forms: `$flag`, `!$flag`, `$mode == "strict"`, `$user.role != admin`, `$count == 3`.
+ */
+export const parseReferenceCondition = (condition: string): ReferenceCondition | null => {
+  const match = conditionRegex.exec(condition.trim());
+  if (!match) return null;
+
+  const [, negated, variable, access, operator, literal] = match;
+  const value = literal === undefined ? null : parseLiteral(literal.trim());
+  if (literal !== undefined && value === null) return null;
+
+  return {
+    negated: negated !== undefined,
+    variable,
+    accessPath: access ? access.slice(1).split('.') : [],
+    operator: (operator as ReferenceCondition['operator']) ?? null,
+    value,
+  };
+};
+
+// Follows the dotted access path into a structured variable value
+const getValue = (variables: TemplateVariables, condition: ReferenceCondition) =>
+  condition.accessPath.reduce<TemplateVariableValue | undefined>(
+    (value, key) =>
+      value !== undefined && typeof value === 'object' && !Array.isArray(value)
+        ? (value as { readonly [key: string]: TemplateVariableValue })[key]
+        : undefined,
+    variables[condition.variable]
+  );
+
+// Same truthiness as mustache sections: unset, false, empty strings, zero and empty lists are falsy
+const isTruthy = (value: TemplateVariableValue | undefined) =>
+  value !== undefined &&
+  value !== false &&
+  value !== '' &&
+  value !== 0 &&
+  !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Evaluates a parsed reference condition against the variables of the referencing template.
+ * Comparisons are made on the string form of both sides, so `$count == 3` matches both 3 and "3".
+ */
+export const evaluateReferenceCondition = (
+  condition: ReferenceCondition,
+  variables: TemplateVariables
+): boolean => {
+  const value = getValue(variables, condition);
+
+  const result =
+    condition.operator === null
+      ? isTruthy(value)
+      : (value !== undefined && String(value) === String(condition.value)) ===
+        (condition.operator === '==');
+
+  return condition.negated ? !result : result;
+};
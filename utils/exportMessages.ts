@@ -0,0 +1,43 @@
+import type { ChatMessage } from './composeMessages';
+
+// The system messages of a conversation joined in a single instruction, for APIs taking it apart from the messages
+const joinSystemMessages = (messages: ChatMessage[]) =>
+  messages
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n\n');
+
+/**
+ * Exports messages (as returned by `mosaic.composeMessages()`) to the OpenAI Chat Completions shape,
+ * where system messages stay in the conversation.
+ */
+export const messagesToOpenAI = (messages: ChatMessage[]) =>
+  messages.map(({ role, content }) => ({ role, content }));
+
+/**
+ * Exports messages to the Anthropic Messages shape: the system messages are joined in the `system` parameter,
+ * and the conversation keeps the user and assistant messages only.
+ */
+export const messagesToAnthropic = (messages: ChatMessage[]) => ({
+  system: joinSystemMessages(messages),
+  messages: messages
+    .filter((message) => message.role !== 'system')
+    .map(({ role, content }) => ({ role: role as 'user' | 'assistant', content })),
+});
+
+/**
+ * Exports messages to the Gemini `generateContent` shape: the system messages are joined in `systemInstruction`,
+ * and assistant messages are sent with the 'model' role.
+ */
+export const messagesToGemini = (messages: ChatMessage[]) => {
+  const system = joinSystemMessages(messages);
+  return {
+    ...(system === '' ? {} : { systemInstruction: { parts: [{ text: system }] } }),
+    contents: messages
+      .filter((message) => message.role !== 'system')
+      .map(({ role, content }) => ({
+        role: role === 'assistant' ? ('model' as const) : ('user' as const),
+        parts: [{ text: content }],
+      })),
+  };
+};
@@ -0,0 +1,97 @@
+import type { TemplateTreeNode } from './buildTemplateTree';
+
+/**
+ * A single edge of a template graph, from a template to a template it references.
+ * Pruned edges are references that were removed because they would create a loop.
+ */
+interface TemplateGraphEdge {
+  from: string;
+  to: string;
+  label: string;
+  pruned: boolean;
+}
+
+/**
+ * Collects the distinct nodes and edges of a template tree.
+ * Templates included from several places (diamonds) appear once, with one edge per include.
+ */
+const collectGraph = (root: TemplateTreeNode) => {
+  const nodes = new Map<string, TemplateTreeNode>();
+  const edges: TemplateGraphEdge[] = [];
+  const edgeKeys = new Set<string>();
+
+  const addEdge = (edge: TemplateGraphEdge) => {
+    const key = `${edge.from}\0${edge.to}\0${edge.pruned}`;
+    if (edgeKeys.has(key)) return;
+    edgeKeys.add(key);
+    edges.push(edge);
+  };
+
+  const visit = (node: TemplateTreeNode) => {
+    if (!nodes.has(node.path)) nodes.set(node.path, node);
+
+    for (const child of node.children ?? []) {
+      addEdge({ from: node.path, to: child.path, label: child.selector, pruned: false });
+      visit(child);
+    }
+    for (const pruned of node.prunedReferences) {
+      addEdge({ from: node.path, to: pruned, label: node.selectors[pruned] ?? pruned, pruned: true });
+    }
+  };
+  visit(root);
+
+  return { nodes, edges };
+};
+
+// A node label shows the template path and its frontmatter id, if any
+const nodeLabel = (node: TemplateTreeNode | undefined, path: string) =>
+  typeof node?.frontmatter?.id === 'string' ? `${path}\n#${node.frontmatter.id}` : path;
+
+/**
+ * Exports a template tree (as returned by `mosaic.graph()`) to Graphviz DOT.
+ * Pruned loop edges are drawn dashed and red.
+ */
+export const templateGraphToDot = (root: TemplateTreeNode): string => {
+  const { nodes, edges } = collectGraph(root);
+  const quote = (text: string) =>
+    `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+  const lines = [`digraph ${quote(root.path)} {`];
+  for (const [path, node] of nodes) {
+    lines.push(`  ${quote(path)} [label=${quote(nodeLabel(node, path))}];`);
+  }
+  for (const edge of edges) {
+    const attributes = edge.pruned
+      ? `label=${quote(edge.label)}, style=dashed, color=red`
+      : `label=${quote(edge.label)}`;
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes}];`);
+  }
+  lines.push('}');
+
+  return lines.join('\n');
+};
+
+/**
+ * Exports a template tree (as returned by `mosaic.graph()`) to a Mermaid flowchart.
+ * Pruned loop edges are drawn as dotted arrows.
+ */
+export const templateGraphToMermaid = (root: TemplateTreeNode): string => {
+  const { nodes, edges } = collectGraph(root);
+  const escape = (text: string) => text.replace(/"/g, '#quot;').replace(/\n/g, '<br/>');
+
+  // Mermaid node ids cannot contain slashes, so nodes are numbered in discovery order
+  const nodeIds = new Map([...nodes.keys()].map((path, index) => [path, `n${index}`]));
+
+  const lines = ['flowchart TD'];
+  for (const [path, node] of nodes) {
+    lines.push(`  ${nodeIds.get(path)}["${escape(nodeLabel(node, path))}"]`);
+  }
+  for (const edge of edges) {
+    const arrow = edge.pruned ? '-.->' : '-->';
+    lines.push(
+      `  ${nodeIds.get(edge.from)} ${arrow}|"${escape(edge.label)}"| ${nodeIds.get(edge.to)}`
+    );
+  }
+
+  return lines.join('\n');
+};
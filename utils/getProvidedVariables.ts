@@ -0,0 +1,94 @@
+import { Effect, Option } from 'effect';
+
+import { MosaicVariables } from '../Mosaic';
+import { normalizeOverridesPaths } from './normalizeOverridesPaths';
+import type { TemplateVariables } from './decodeVariables';
+import type { TemplateOverrides } from './decodeTemplateOverrides';
+import { resolveTemplateOverrides } from './resolveOverrides';
+import { EMPTY_TEMPLATE_DATA, getDataVariables } from './buildTemplateData';
+import { reportDiagnostic } from './reportDiagnostic';
+
+/**
+ * Reads the global variables, the path-specific overrides (with keys normalized to relative paths),
+ * whether overrides are inherited down the tree, the variables of the data files and the names of the lazy variables
+ * (global variables resolved on demand) from the MosaicVariables context.
+ * The global variables only include the lazy variables resolved so far.
+ * Yields empty records when no variables were provided.
+ */
+export const getProvidedVariables = () =>
+  Effect.gen(function* () {
+    const mosaicVariables = yield* Effect.serviceOption(MosaicVariables);
+
+    if (Option.isNone(mosaicVariables)) {
+      return {
+        variables: {} as TemplateVariables,
+        overrides: {} as TemplateOverrides,
+        inheritOverrides: false,
+        data: EMPTY_TEMPLATE_DATA,
+        lazyVariables: [] as string[],
+      };
+    }
+
+    const variables = yield* mosaicVariables.value.templateVariables;
+    const overrides = yield* normalizeOverridesPaths(
+      yield* mosaicVariables.value.templateOverrides
+    );
+    const inheritOverrides = yield* mosaicVariables.value.inheritOverrides;
+    const data = yield* mosaicVariables.value.templateData;
+    const lazyVariables = yield* mosaicVariables.value.lazyVariables;
+    return { variables, overrides, inheritOverrides, data, lazyVariables };
+  });
+
+/**
+ * Resolves the lazy variables (provided as resolvers) among the given names, once per composition,
+ * so they are part of the global variables from then on. Does nothing when no variables were provided.
+ * Returns the lazy variables left unresolved because the context only introspects templates, without composing them.
+ */
+export const resolveProvidedVariables = (names: string[]) =>
+  Effect.gen(function* () {
+    const mosaicVariables = yield* Effect.serviceOption(MosaicVariables);
+    if (Option.isNone(mosaicVariables)) return [] as string[];
+    return yield* mosaicVariables.value.resolveVariables(names);
+  });
+
+/**
+ * Reports the data files that could not be read as warnings, with the reason, as they are ignored by every composition.
+ */
+export const reportInvalidDataFiles = () =>
+  Effect.gen(function* () {
+    const { data } = yield* getProvidedVariables();
+    for (const { filePath, reason } of data.invalidFiles) {
+      yield* reportDiagnostic({
+        kind: 'invalid-data-file',
+        severity: 'warning',
+        message: `Could not read data file "${filePath}": ${reason}. Ignoring it...`,
+        path: null,
+        selector: filePath,
+        ancestors: [],
+      });
+    }
+  });
+
+/**
+ * Resolves the variables that apply to a single template: the variables of the data files (namespaces, then directory defaults),
+ * then its declared defaults, then the global variables,
+ * then the overrides inherited from its ancestors, then the arguments passed by the slot including it,
+ * then the overrides matching the template itself (overrides take precedence).
+ */
+export const getPathVariables = (
+  template: { path: string; frontmatter: Record<string, any> | null },
+  defaults: TemplateVariables = {},
+  args: TemplateVariables = {},
+  inheritedOverrides: TemplateVariables = {}
+) =>
+  Effect.gen(function* () {
+    const { variables, overrides, data } = yield* getProvidedVariables();
+    return {
+      ...getDataVariables(data, template.path),
+      ...defaults,
+      ...variables,
+      ...inheritedOverrides,
+      ...args,
+      ...resolveTemplateOverrides(overrides, template),
+    } as TemplateVariables;
+  });
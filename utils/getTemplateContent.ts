@@ -1,58 +1,119 @@
-import path from "path";
-import fs from "fs";
-
-import { Effect, Console } from "effect";
+import { Effect } from "effect";
 
 import { findMarkdownFileById } from "./findMarkdownFileById";
+import { reportDiagnostic } from "./reportDiagnostic";
 
 // Types
 import { TemplateSelectorType } from "../types/TemplateSelectorType";
 import { Directory } from "./normalizeToRelativeSelector";
+import type { TemplateFile } from "./readTemplateFile";
+import {
+  extractSection,
+  splitSectionPath,
+  splitSectionSelector,
+} from "./templateSection";
 
-// TODO: Write documentation for this function
-// This function should respect the principle of graceful degradation
-// If a template is not found, it should return null instead of throwing an error
-// At the same time, it should log a warning to the console
+/**
+ * Reads a template file from the instructions directory (or bundle), split into frontmatter and content.
+ * Files are parsed once and served from the directory cache for as long as they are not modified.
+ *
+ * This function respects the principle of graceful degradation: if a template is not found,
+ * it returns null instead of failing, and reports a 'missing-template' diagnostic located at the
+ * referencing template (the last of the provided `ancestors`).
+ */
 export const getTemplateContent = ({
   templateSelector,
   type,
+  ancestors = [],
 }: {
   templateSelector: string;
   type: TemplateSelectorType;
+  ancestors?: string[];
 }) =>
   Effect.gen(function* () {
     const directory = yield* Directory;
-    const instructionsDir = yield* directory.templateDir;
+
+    // The template holding the reference is the last ancestor
+    const referencingPath = ancestors.at(-1) ?? null;
+    const referencingAncestors = ancestors.slice(0, -1);
+    const reportMissingTemplate = reportDiagnostic({
+      kind: "missing-template",
+      severity: "warning",
+      message: `"${templateSelector}" does not exist. Returning null...`,
+      path: referencingPath,
+      selector: templateSelector,
+      ancestors: referencingAncestors,
+    });
+
+    // Layered sources tell which layer each template was read from
+    const reportTemplateLayer = (templatePath: string, templateFile: TemplateFile) =>
+      Effect.when(
+        reportDiagnostic({
+          kind: "template-layer",
+          severity: "info",
+          message: `${templatePath} was read from layer "${templateFile.layer}" (${templateFile.filePath}).`,
+          path: templatePath,
+          selector: templateSelector,
+          ancestors,
+        }),
+        () => templateFile.layer !== undefined
+      );
+
+    // A section is read from the file of its template, e.g. 'rules/general-rules#safety'
+    const { selector: fileSelector, section } = splitSectionSelector(templateSelector);
+    const withSection = (templatePath: string) =>
+      section === null ? templatePath : `${templatePath}#${section}`;
 
     // Retrieve content for type id
     if (type === "id") {
-      const id = templateSelector.slice(1); // remove '#'
-      const foundPath = findMarkdownFileById(instructionsDir, id);
-      if (!foundPath) {
-        yield* Console.warn(
-          `"${templateSelector}" does not exist. Returning null...`,
-        );
+      const id = fileSelector.slice(1); // remove '#'
+      const templateIndex = yield* directory.templateIndex;
+      const found = yield* findMarkdownFileById(templateIndex, id, {
+        path: referencingPath,
+        ancestors: referencingAncestors,
+      });
+      if (!found) {
+        yield* reportMissingTemplate;
         return null;
       }
-      const templateContent = fs.readFileSync(foundPath, "utf-8");
+      const templateFile = yield* readTemplateAtPath(withSection(found.path));
+      if (!templateFile) {
+        yield* reportMissingTemplate;
+      } else {
+        yield* reportTemplateLayer(withSection(found.path), templateFile);
+      }
 
-      return templateContent;
+      return templateFile;
     }
 
     // Retrieve content for type root
-    let selectorPath = templateSelector;
+    let selectorPath = fileSelector;
     if (type === "root") {
-      selectorPath = templateSelector.slice(1);
+      selectorPath = fileSelector.slice(1);
     }
 
     // Retrieve content for type relative
-    const templatePath = path.join(instructionsDir, selectorPath + ".md");
-    if (!fs.existsSync(templatePath)) {
-      yield* Console.warn(
-        `"${templateSelector}" does not exist. Returning null...`,
-      );
-      return null;
+    const templateFile = yield* readTemplateAtPath(withSection(selectorPath));
+    if (!templateFile) {
+      yield* reportMissingTemplate;
+    } else {
+      yield* reportTemplateLayer(withSection(selectorPath), templateFile);
     }
 
-    return fs.readFileSync(templatePath, "utf-8");
+    return templateFile;
+  });
+
+/**
+ * Reads the template at a normalized path, keeping only its section when the path has one
+ * (e.g. "rules/general-rules#safety"). Returns null when the file or its section does not exist.
+ */
+export const readTemplateAtPath = (templatePath: string) =>
+  Effect.gen(function* () {
+    const directory = yield* Directory;
+    const { templatePath: filePath, section } = splitSectionPath(templatePath);
+    const templateFile = yield* directory.readTemplate(filePath);
+    if (templateFile === null || section === null) return templateFile;
+
+    const content = extractSection(templateFile.content, section);
+    return content === null ? null : { ...templateFile, content };
   });
@@ -23,22 +23,27 @@ type SelectorValidation = typeof SelectorValidationSchema.Type;
  * and if valid, specifies its type ('relative', 'root', or 'id').
  *
  * Supported selector formats:
- * - Relative path (e.g., 'some-dir/core-instructions')
+ * - Relative path (e.g., 'some-dir/core-instructions', './sibling', '../shared/footer')
  * - Root path prefixed with '@' (e.g., '@root-block', '@namespace/path')
  * - ID selector prefixed with '#' (e.g., '#some-id')
  *
+ * Any of them can select a single section of the template, by anchor ('rules/general-rules#safety')
+ * or by heading ('#special-rules > Escalation').
+ *
  * Returns: Effect<SelectorValidation>
  */
 export const isValidTemplateSelector = (
   selector: string
 ): Effect.Effect<SelectorValidation> =>
   Effect.sync(() => {
-    // Type 1: relative path (no prefix)
-    const relativePath = /^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/;
+    // Optional section: an anchor ('#safety') or a heading (' > Escalation')
+    const section = String.raw`(#[a-zA-Z0-9_-]+|\s*>\s*\S.*)?`;
+    // Type 1: relative path (no prefix, or leading './' and '../' segments)
+    const relativePath = new RegExp(String.raw`^(\.{1,2}\/)*[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*${section}$`);
     // Type 2: root path (starts with @)
-    const rootPath = /^@[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/;
+    const rootPath = new RegExp(String.raw`^@[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*${section}$`);
     // Type 3: id selector (starts with #)
-    const idSelector = /^#[a-zA-Z0-9_-]+$/;
+    const idSelector = new RegExp(String.raw`^#[a-zA-Z0-9_-]+${section}$`);
 
     if (relativePath.test(selector)) return { valid: true, type: 'relative' };
     if (rootPath.test(selector)) return { valid: true, type: 'root' };
@@ -0,0 +1,151 @@
+import { Context, Effect, Option } from 'effect';
+
+import type { SourceMapSegment } from './sourceMap';
+
+/**
+ * How the content of included templates is laid out in the content including them. Every option is off by default,
+ * so children are inserted exactly as they are written.
+ *
+ * @property {boolean} [shiftHeadings] - Shifts the headings of an included template below the heading it is included under
+ * (e.g. a template starting with `# Company` included under `## Company Information` starts with `### Company`)
+ * @property {boolean} [indentChildren] - Indents every line of an included template after the first like its reference,
+ * so it stays inside the list item or blockquote the reference is written in
+ * @property {boolean} [collapseBlankLines] - Removes the lines of references that are removed or render empty,
+ * instead of leaving a blank line behind
+ */
+export interface ContentLayout {
+  shiftHeadings?: boolean;
+  indentChildren?: boolean;
+  collapseBlankLines?: boolean;
+}
+
+// Context
+export class Layout extends Context.Tag('Layout')<Layout, ContentLayout>() {}
+
+/**
+ * Reads the layout of the composition from the Layout service, every option off when it is not provided.
+ */
+export const getLayout = Effect.serviceOption(Layout).pipe(
+  Effect.map(Option.getOrElse((): ContentLayout => ({})))
+);
+
+const headingRegex = /^[ \t]{0,3}(#{1,6})(?=[ \t]|\r?\n?$)/;
+const fenceRegex = /^[ \t]*(`{3,}|~{3,})/;
+
+// The ATX headings of a content outside fenced code blocks, with the offset of their first '#'
+const findHeadings = (content: string) => {
+  const headings: { index: number; level: number }[] = [];
+  let fence: string | null = null;
+  let offset = 0;
+
+  for (const line of content.split(/(?<=\n)/)) {
+    const fenceMatch = fenceRegex.exec(line);
+    if (fenceMatch && (fence === null || fenceMatch[1].startsWith(fence))) {
+      fence = fence === null ? fenceMatch[1] : null;
+    } else if (fence === null) {
+      const heading = headingRegex.exec(line);
+      if (heading) {
+        headings.push({ index: offset + heading[0].length - heading[1].length, level: heading[1].length });
+      }
+    }
+    offset += line.length;
+  }
+  return headings;
+};
+
+/**
+ * The prefix of the lines continuing a reference written after the given line prefix:
+ * the indentation of its line, blockquote markers kept and list markers replaced by spaces.
+ * e.g. "  - " -> "    ", "> " -> "> ", "> 1. See: " -> ">    "
+ */
+export const getContinuationPrefix = (linePrefix: string) => {
+  const [structure] = /^(?:[ \t]*>)*[ \t]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+)?/.exec(linePrefix)!;
+  return structure.replace(/(?:[-*+]|\d{1,9}[.)])(?=[ \t]+$)/, (marker) => ' '.repeat(marker.length));
+};
+
+// A text insertion at an offset of a content
+type Insertion = { index: number; text: string };
+
+/**
+ * Applies insertions to a content and shifts its source map accordingly:
+ * text inserted at the start of a segment or inside it extends that segment.
+ */
+const insertIntoContent = (
+  content: string,
+  sourceMap: SourceMapSegment[],
+  insertions: Insertion[]
+) => {
+  const sorted = [...insertions].sort((a, b) => a.index - b.index);
+  const shiftBefore = (offset: number) =>
+    sorted.reduce((shift, insertion) => (insertion.index < offset ? shift + insertion.text.length : shift), 0);
+
+  let result = '';
+  let position = 0;
+  for (const { index, text } of sorted) {
+    result += content.slice(position, index) + text;
+    position = index;
+  }
+  result += content.slice(position);
+
+  return {
+    content: result,
+    sourceMap: sourceMap.map((segment) => ({
+      ...segment,
+      start: segment.start + shiftBefore(segment.start),
+      end: segment.end + shiftBefore(segment.end),
+    })),
+  };
+};
+
+/**
+ * Lays out the rendered content of a child before it is inserted into its parent, after the given output:
+ * its headings are shifted below the last heading of the parent's own text (the children inserted before it excluded),
+ * and its lines are indented like the reference.
+ */
+export const layoutChildContent = (
+  child: { content: string; sourceMap: SourceMapSegment[] },
+  precedingOutput: string,
+  precedingParentText: string,
+  layout: ContentLayout
+) => {
+  const insertions: Insertion[] = [];
+
+  // Indentation goes before the '#' added to a heading at the start of the same line
+  if (layout.indentChildren) {
+    const prefix = getContinuationPrefix(precedingOutput.slice(precedingOutput.lastIndexOf('\n') + 1));
+    if (prefix !== '') {
+      for (const line of child.content.matchAll(/\n([^\n]*)/g)) {
+        // Blank lines stay blank, except inside blockquotes
+        const text = line[1].trim() === '' ? prefix.trimEnd() : prefix;
+        if (text !== '') insertions.push({ index: line.index + 1, text });
+      }
+    }
+  }
+
+  if (layout.shiftHeadings) {
+    const enclosingLevel = findHeadings(precedingParentText).at(-1)?.level ?? 0;
+    const headings = findHeadings(child.content);
+    const shift = enclosingLevel + 1 - Math.min(...headings.map((heading) => heading.level));
+    if (enclosingLevel > 0 && shift > 0) {
+      for (const { index, level } of headings) {
+        // Markdown has no heading deeper than 6
+        insertions.push({ index, text: '#'.repeat(Math.min(shift, 6 - level)) });
+      }
+    }
+  }
+
+  return insertions.length === 0 ? child : insertIntoContent(child.content, child.sourceMap, insertions);
+};
+
+/**
+ * Extends the range [start, end) of a reference to its whole line when it is alone on it,
+ * so removing it does not leave a blank line behind. The line break ending the line is included.
+ */
+export const extendToStandaloneLine = (content: string, start: number, end: number) => {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = content.indexOf('\n', end);
+  const before = content.slice(lineStart, start);
+  const after = content.slice(end, lineEnd === -1 ? content.length : lineEnd);
+  if (before.trim() !== '' || after.trim() !== '') return { start, end };
+  return { start: lineStart, end: lineEnd === -1 ? content.length : lineEnd + 1 };
+};
@@ -1,6 +1,7 @@
 import { Effect } from "effect";
 
 import { normalizeToRelativeSelector } from "./normalizeToRelativeSelector";
+import { isOverridePattern } from "./resolveOverrides";
 
 import { type TemplateVariables } from "./decodeVariables";
 import { type TemplateOverrides } from "./decodeTemplateOverrides";
@@ -8,15 +9,18 @@ import { type TemplateOverrides } from "./decodeTemplateOverrides";
 /**
  * Takes a TemplateOverrides object (mapping selectors to variables) and normalizes all selector keys
  * to their canonical relative path format, resolving id and root selectors as needed.
+ * Pattern keys (`tag:name`, globs and directories) are kept as they are, without a leading '@'.
  * Returns an Effect that yields a new TemplateOverrides object with normalized keys.
  */
 export const normalizeOverridesPaths = (
     overrides: TemplateOverrides,
 ) => Effect.forEach(
     Object.entries(overrides),
-    ([key, value]) => normalizeToRelativeSelector(key)
+    ([key, value]) => isOverridePattern(key)
+        ? Effect.succeed<[string, TemplateVariables]>([key.replace(/^@/, ""), value])
+        : normalizeToRelativeSelector(key)
         .pipe(
-            Effect.map(normalizedKey =>
+            Effect.map((normalizedKey): [string, TemplateVariables] | undefined =>
                 normalizedKey ? [normalizedKey, value] : undefined
             )
         ),
@@ -1,111 +1,96 @@
 import path from 'path';
 import { findMarkdownFileById } from './findMarkdownFileById';
-import { Effect, Context, Schema } from 'effect';
+import { isValidTemplateSelector } from './isValidTemplateSelector';
+import { splitSectionSelector } from './templateSection';
+import { Effect, Context } from 'effect';
+
+// Types
+import { TemplateSelectorType } from '../types/TemplateSelectorType';
+import type { TemplateIndex } from './buildTemplateIndex';
+import type { TemplateFile } from './readTemplateFile';
 
 
 // Context
 export class Directory extends Context.Tag('Directory')<
   Directory,
   {
-    readonly templateDir: Effect.Effect<string>;
+    readonly templateIndex: Effect.Effect<TemplateIndex>;
+    readonly readTemplate: (templatePath: string) => Effect.Effect<TemplateFile | null>;
   }
 >() {}
 
-// export type TemplateSelectorType = 'relative' | 'root' | 'id';
-const TemplateSelectorTypeSchema = Schema.Literal('relative', 'root', 'id');
-type TemplateSelectorType = typeof TemplateSelectorTypeSchema.Type;
-
-export type TemplateSelectorValidation = {
-  valid: boolean;
-  type?: TemplateSelectorType;
-};
-
-const SelectorValidationSchema = Schema.Union(
-  Schema.Struct({
-    valid: Schema.Literal(true),
-    type: TemplateSelectorTypeSchema,
-  }),
-  Schema.Struct({
-    valid: Schema.Literal(false),
-  })
-);
-
-type SelectorValidation = typeof SelectorValidationSchema.Type;
-
 /**
- * Effectful function that validates a MosaicJS template selector string and determines its type.
- * Accepts a selector and returns an Effect that, when executed, yields an object indicating whether the selector is valid,
- * and if valid, specifies its type ('relative', 'root', or 'id').
- *
- * Supported selector formats:
- * - Relative path (e.g., 'some-dir/core-instructions')
- * - Root path prefixed with '@' (e.g., '@root-block', '@namespace/path')
- * - ID selector prefixed with '#' (e.g., '#some-id')
- *
- * Returns: Effect<SelectorValidation>
+ * Resolves a relative selector against the directory of the template that references it.
+ * Both plain paths ('specialist') and explicit './' or '../' prefixed paths are supported.
+ * Without a current path (e.g. a root selector passed to compose, or an override key), the selector is resolved from the root.
+ * Returns null if the resolved path escapes the template directory.
  */
-export const isValidTemplateSelector = (
-  selector: string
-): Effect.Effect<SelectorValidation> =>
-  Effect.sync(() => {
-    // Type 1: relative path (no prefix)
-    const relativePath = /^[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/;
-    // Type 2: root path (starts with @)
-    const rootPath = /^@[a-zA-Z0-9_-]+(\/[a-zA-Z0-9_-]+)*$/;
-    // Type 3: id selector (starts with #)
-    const idSelector = /^#[a-zA-Z0-9_-]+$/;
-
-    if (relativePath.test(selector)) return { valid: true, type: 'relative' };
-    if (rootPath.test(selector)) return { valid: true, type: 'root' };
-    if (idSelector.test(selector)) return { valid: true, type: 'id' };
+const resolveRelativePath = (selector: string, currentPath?: string) => {
+  const baseDir = currentPath ? path.posix.dirname(currentPath) : '';
+  const resolved = path.posix.normalize(path.posix.join(baseDir, selector));
 
-    return { valid: false };
-  });
+  if (resolved === '..' || resolved.startsWith('../')) return null;
+  return resolved;
+};
 
-  /**
+/**
  * Effectful function that normalizes a validated MosaicJS template selector to a relative path string.
  * 
  * This is an unsafe function: it expects the provided selector to be already validated and of a correct type.
  * The function uses the selector type to determine how to normalize:
- * - For 'id' selectors (e.g., '#some-id'), it resolves the corresponding markdown file and returns the path relative to the template directory.
+ * - For 'id' selectors (e.g., '#some-id'), it looks up the corresponding markdown file in the template index and returns its path relative to the template directory.
  * - For 'root' selectors (e.g., '@root-block'), it removes the '@' prefix and returns the path as relative to root.
- * - For 'relative' selectors, it returns the selector as-is.
+ * - For 'relative' selectors, it resolves the path against the directory of `currentPath` (the referencing template).
+ *
+ * The optional `ancestors` of the referencing template are only used to locate diagnostics (e.g. duplicate ids).
  * 
- * Context: Requires access to the template directory from the Directory context.
+ * Context: Requires access to the template index from the Directory context.
  * Returns: Effect<string | null>
  */
 export const normalizeSelector = (
   selector: string,
-  type: TemplateSelectorType
+  type: TemplateSelectorType,
+  currentPath?: string,
+  ancestors: string[] = []
 ) =>
   Effect.gen(function* () {
-    // Get the template directory from the context
+    // Get the template index from the context
     const directory = yield* Directory;
-    const templateDir = yield* directory.templateDir;
+
+    // A section is kept as an anchor after the normalized path, e.g. 'rules/general-rules#safety'
+    const { selector: templateSelector, section } = splitSectionSelector(selector);
+    const withSection = (templatePath: string | null) =>
+      templatePath === null || section === null ? templatePath : `${templatePath}#${section}`;
 
     if (type === 'id') {
-      const id = selector.slice(1); // remove '#'
-      const foundPath = yield* Effect.sync(() => findMarkdownFileById(templateDir, id));
-      
-      if (!foundPath) return null;
-      // Return the path relative to the templateDir, without extension
-      const relativePath = path
-        .relative(templateDir, foundPath)
-        .replace(/\\/g, '/');
-      return relativePath.replace(/\.md$/, '');
+      const id = templateSelector.slice(1); // remove '#'
+      const templateIndex = yield* directory.templateIndex;
+      const found = yield* findMarkdownFileById(templateIndex, id, {
+        path: currentPath ?? null,
+        ancestors,
+      });
+
+      // The index already stores the path relative to the template directory, without extension
+      return withSection(found ? found.path : null);
     }
     if (type === 'root') {
       // Remove '@' prefix, return as relative to root
-      return selector.slice(1);
+      return withSection(templateSelector.slice(1));
     }
 
-    // Already relative, just return as-is
-    return selector;
+    // Relative to the referencing template's location
+    return withSection(resolveRelativePath(templateSelector, currentPath));
   });
 
-export const normalizeToRelativeSelector = (selector: string) =>
+export const normalizeToRelativeSelector = (
+  selector: string,
+  currentPath?: string,
+  ancestors: string[] = []
+) =>
   Effect.gen(function* () {
     const validation = yield* isValidTemplateSelector(selector);
 
-    return validation.valid ? yield* normalizeSelector(selector, validation.type) : null;
+    return validation.valid
+      ? yield* normalizeSelector(selector, validation.type, currentPath, ancestors)
+      : null;
   });
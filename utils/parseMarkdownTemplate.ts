@@ -1,7 +1,42 @@
-import matter from "gray-matter";
-import { Effect, pipe, Console } from "effect";
-import { getTemplateContent } from "./getTemplateContent";
+import { Effect, pipe } from "effect";
+import { getTemplateContent, readTemplateAtPath } from "./getTemplateContent";
+import type { TemplateFile } from "./readTemplateFile";
+import { SUPER_REFERENCE, getSuperPath } from "./templateSource";
 import { normalizeToRelativeSelector } from "./normalizeToRelativeSelector";
+import { isValidTemplateSelector } from "./isValidTemplateSelector";
+import { reportDiagnostic } from "./reportDiagnostic";
+import {
+  type ContentOrigin,
+  type ContentReplacement,
+  createContentOrigin,
+  replaceInOrigin,
+} from "./sourceMap";
+import {
+  getPathVariables,
+  resolveProvidedVariables,
+} from "./getProvidedVariables";
+import { getDeclaredDefaults } from "./checkVariableDeclarations";
+import {
+  type TemplateVariables,
+  type VariableDeclarations,
+  decodeVariableDeclarations,
+} from "./decodeVariables";
+import { parseReferenceSlot } from "./parseReferenceSlot";
+import { extendToStandaloneLine, getLayout } from "./layoutContent";
+import { getSyntax, prepareTemplateContent } from "./templateSyntax";
+import {
+  parseReferenceCondition,
+  evaluateReferenceCondition,
+} from "./evaluateReferenceCondition";
+
+// `super` names the shadowed template, unless nothing is shadowed and a template named `super` sits next to the including one
+const refersToShadowedLayer = (currentPath: string, ancestors: string[]) =>
+  Effect.gen(function* () {
+    if ((yield* readTemplateAtPath(getSuperPath(currentPath))) !== null) return true;
+
+    const siblingPath = yield* normalizeToRelativeSelector(SUPER_REFERENCE, currentPath, ancestors);
+    return siblingPath === null || (yield* readTemplateAtPath(siblingPath)) === null;
+  });
 
 export interface ParsedMarkdownTemplate {
   path: string;
@@ -9,27 +44,70 @@ export interface ParsedMarkdownTemplate {
   content: string;
   variables: string[];
   references: string[];
+  selectors: Record<string, string>; // Normalized reference -> selector as written in the content
+  slots: Record<string, ReferenceInclude>; // Content slot (e.g. "rules/limits" or "rules/limits~1") -> what it includes
+  origin: ContentOrigin; // Where each character of the content comes from in the markdown file
+}
+
+/**
+ * A single inclusion of a referenced template in the content.
+ * References passed arguments get a slot of their own per distinct set of arguments (e.g. "rules/limits~1"),
+ * so the same template can be included with different arguments by the same parent.
+ *
+ * @property {string} reference - The normalized reference included in this slot
+ * @property {TemplateVariables} arguments - The arguments passed to the referenced template
+ */
+export interface ReferenceInclude {
+  reference: string;
+  arguments: TemplateVariables;
 }
 
 // Step 1: Get the file content
-const getContentRelative = (templateSelector: string) =>
-  getTemplateContent({ templateSelector, type: "relative" });
+const getContentRelative = (templateSelector: string, ancestors: string[]) =>
+  getTemplateContent({ templateSelector, type: "relative", ancestors });
 
-// Step 2: Parse frontmatter
-const parseFrontmatter = (templateContent: string) =>
+// Step 2: Take the frontmatter and content parsed from the file, its literal text protected from parsing
+const parseFrontmatter = (
+  templatePath: string,
+  ancestors: string[],
+) => ({ filePath, source, frontmatter, content, frontmatterError }: TemplateFile) =>
   Effect.gen(function* () {
-    const parsed = matter(templateContent);
-    const frontmatter =
-      Object.keys(parsed.data).length > 0 ? parsed.data : null;
-    const content = parsed.content;
+    if (frontmatterError !== undefined) {
+      yield* reportDiagnostic({
+        kind: "invalid-frontmatter",
+        severity: "error",
+        message: `Could not parse frontmatter of ${templatePath}: ${frontmatterError}. Ignoring it...`,
+        path: templatePath,
+        selector: templatePath,
+        ancestors,
+      });
+    }
 
-    return { frontmatter, content };
+    const prepared = prepareTemplateContent(content, yield* getSyntax);
+    return {
+      frontmatter,
+      content: prepared.content,
+      // Keep track of where the content comes from, to map composed output back to the file
+      origin: replaceInOrigin(
+        createContentOrigin(filePath, source, content),
+        prepared.replacements,
+      ),
+    };
   });
 
-// Step 3: Extract variables
-const extractVariables = ({ content, ...rest }: { content: string }) =>
+// Matches a variable tag: plain or dotted access ($user.name), piped into filters or not ($name | upper),
+// and section openers/closers ({{#$tools}}, {{^$tools}}, {{/$tools}})
+const variableTagRegex =
+  /^(?:[#^\/]?\$[a-zA-Z0-9_\-]+(\.[a-zA-Z0-9_\-]+)*|\$[a-zA-Z0-9_\-]+(\.[a-zA-Z0-9_\-]+)*\s*\|[\s\S]*)$/;
+
+// Step 3: Extract variables (base names only, e.g. "user" for {{ $user.name }})
+const extractVariables = <T extends { content: string }>({
+  content,
+  ...rest
+}: T) =>
   Effect.sync(() => {
-    const variableRegex = /\{\{\s*\$([a-zA-Z0-9_\-]+)\s*\}\}/g;
+    const variableRegex =
+      /\{\{\s*[#^]?\$([a-zA-Z0-9_\-]+)(?:\.[a-zA-Z0-9_\-]+)*\s*(?:\|[^\}]*)?\}\}/g;
     const variables: string[] = [];
     let match: RegExpExecArray | null;
     while ((match = variableRegex.exec(content)) !== null) {
@@ -38,6 +116,40 @@ const extractVariables = ({ content, ...rest }: { content: string }) =>
     return { ...rest, content, variables };
   });
 
+// Tags that cannot be fields of section items: root and relative selectors, paths with a directory,
+// and id selectors that do not open a mustache section (which would be closed by {{/id}})
+const isUnambiguousSelector = (slot: string, content: string) => {
+  if (/^(@|\.{1,2}\/)/.test(slot) || /^[^\s#^\/>&{!=]+\/\S/.test(slot)) return true;
+  const id = /^#([a-zA-Z0-9_\-]+)/.exec(slot)?.[1];
+  return id !== undefined && !new RegExp(`\\{\\{\\s*\\/\\s*${id}\\s*\\}\\}`).test(content);
+};
+
+// Serializes arguments with their keys (and those of nested records) sorted, so their order does not matter
+const stringifyArguments = (args: TemplateVariables) =>
+  JSON.stringify(args, (_key, value) =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value,
+  );
+
+// Returns the content slot of a reference: its normalized path without arguments,
+// otherwise the slot already including it with the same arguments or a new numbered one (e.g. "rules/limits~2")
+const getSlotKey = (
+  slots: Record<string, ReferenceInclude>,
+  reference: string,
+  args: TemplateVariables,
+) => {
+  if (Object.keys(args).length === 0) return reference;
+
+  const instances = Object.entries(slots).filter(
+    ([key, slot]) => slot.reference === reference && key !== reference,
+  );
+  const existing = instances.find(
+    ([, slot]) => stringifyArguments(slot.arguments) === stringifyArguments(args),
+  );
+  return existing ? existing[0] : `${reference}~${instances.length + 1}`;
+};
+
 // Core reference extraction and normalization logic
 export const extractReferencesFromContent = (
   content: string,
@@ -46,6 +158,8 @@ export const extractReferencesFromContent = (
     ancestors?: string[];
     removeLoopedReferences?: boolean;
     normalizeInContent?: boolean;
+    conditionVariables?: TemplateVariables; // When given, conditional references are evaluated against these variables
+    undecidedVariables?: string[]; // Variables whose value is not known, conditions testing them keep their references
   } = {},
 ) =>
   Effect.gen(function* () {
@@ -54,71 +168,175 @@ export const extractReferencesFromContent = (
       ancestors = [],
       removeLoopedReferences = false,
       normalizeInContent = false,
+      conditionVariables,
+      undecidedVariables = [],
     } = options;
 
     const referenceRegex = /\{\{\s*([^\}]+)\s*\}\}/g;
     let match: RegExpExecArray | null;
-    const replacements: { start: number; end: number; replacement: string }[] =
-      [];
+    const replacements: ContentReplacement[] = [];
     const normalizedReferences: string[] = [];
-    const referencesToRemove: string[] = [];
+    const selectors: Record<string, string> = {};
+    const slots: Record<string, ReferenceInclude> = {};
+    const usedVariables: string[] = []; // Variables used by reference conditions
     let updatedContent = content;
+    const layout = yield* getLayout;
+
+    // Queues removal of a matched reference slot from the content (with its line when it is alone on it)
+    const removeMatch = (match: RegExpExecArray) => {
+      const range = layout.collapseBlankLines
+        ? extendToStandaloneLine(content, match.index, match.index + match[0].length)
+        : { start: match.index, end: match.index + match[0].length };
+      replacements.push({ ...range, replacement: "" });
+    };
+
+    // Open sections over $-prefixed variables, e.g. {{#$tools}}...{{/$tools}}
+    const openSections: string[] = [];
 
     // Find and normalize all non-variable references
     while ((match = referenceRegex.exec(content)) !== null) {
-      const ref = match[1].trim();
-      // Skip variable references (those starting with $)
-      if (!/^\$[a-zA-Z0-9_\-]+$/.test(ref)) {
-        const normalized = yield* normalizeToRelativeSelector(ref);
-        const normalizedRef = normalized ?? ref;
+      const slot = match[1].trim();
+
+      // Keep track of sections: inside them, plain tags ({{ name }}) are fields of the section items, not references
+      if (/^[#^]\$/.test(slot)) openSections.push(slot.slice(1));
+      if (/^\/\$/.test(slot)) {
+        const index = openSections.lastIndexOf(slot.slice(1));
+        if (index !== -1) openSections.splice(index);
+      }
+
+      // Skip variable references (those starting with $, including sections) and section item fields,
+      // unless the tag can only be a template selector
+      if (
+        !variableTagRegex.test(slot) &&
+        (openSections.length === 0 || isUnambiguousSelector(slot, content))
+      ) {
+        // Conditional references, e.g. {{ rules/safety-strict if $mode == "strict" }}
+        const { selector: ref, arguments: args, condition } = parseReferenceSlot(slot);
+        if (condition !== null) {
+          const parsedCondition = parseReferenceCondition(condition);
+          if (parsedCondition === null) {
+            yield* reportDiagnostic({
+              kind: "invalid-condition",
+              severity: "warning",
+              message: `"${condition}" is not a valid reference condition. Removing "${slot}"...`,
+              path: currentPath ?? null,
+              selector: ref,
+              ancestors,
+            });
+            removeMatch(match);
+            continue;
+          }
+          usedVariables.push(parsedCondition.variable);
+
+          // Skipped references are removed before being resolved, so they are never loaded or parsed
+          if (
+            conditionVariables !== undefined &&
+            !undecidedVariables.includes(parsedCondition.variable)
+          ) {
+            const included = evaluateReferenceCondition(
+              parsedCondition,
+              conditionVariables,
+            );
+            yield* reportDiagnostic({
+              kind: "conditional-reference",
+              severity: "info",
+              message: `Condition "${condition}" is ${included}${currentPath ? ` in ${currentPath}` : ""}. ${included ? "Including" : "Skipping"} "${ref}"...`,
+              path: currentPath ?? null,
+              selector: ref,
+              ancestors,
+            });
+            if (!included) {
+              removeMatch(match);
+              continue;
+            }
+          }
+        }
+
+        // {{ super }} includes the template shadowed by this one in the next layer (see compositeSource)
+        const isSuper =
+          ref === SUPER_REFERENCE &&
+          currentPath !== undefined &&
+          (yield* refersToShadowedLayer(currentPath, ancestors));
+
+        // Slots that are not valid selectors are removed from the content
+        const validation = isSuper ? { valid: true } : yield* isValidTemplateSelector(ref);
+        if (!validation.valid) {
+          yield* reportDiagnostic({
+            kind: "invalid-selector",
+            severity: "warning",
+            message: `"${ref}" is not a valid template selector. Removing it...`,
+            path: currentPath ?? null,
+            selector: ref,
+            ancestors,
+          });
+          removeMatch(match);
+          continue;
+        }
+
+        // Relative selectors are resolved against the location of the referencing template
+        const normalizedRef = isSuper
+          ? getSuperPath(currentPath)
+          : yield* normalizeToRelativeSelector(ref, currentPath, ancestors);
+
+        // Selectors that cannot be resolved to a template path are removed from the content
+        if (normalizedRef === null) {
+          yield* reportDiagnostic({
+            kind: "unresolved-selector",
+            severity: "warning",
+            message: `"${ref}" does not exist. Returning null...`,
+            path: currentPath ?? null,
+            selector: ref,
+            ancestors,
+          });
+          removeMatch(match);
+          continue;
+        }
 
         // Check for self-references and ancestor loops if loop detection is enabled
         if (removeLoopedReferences && currentPath) {
           if (normalizedRef === currentPath) {
-            yield* Console.warn(
-              `[LoopDetectedError] Self-reference detected in content at ${currentPath}`,
-            );
-            yield* Console.warn(`Removing self-reference: ${ref}`);
-            referencesToRemove.push(ref);
+            yield* reportDiagnostic({
+              kind: "self-reference",
+              severity: "warning",
+              message: `[LoopDetectedError] Self-reference detected in content at ${currentPath}. Removing self-reference: ${ref}`,
+              path: currentPath,
+              selector: ref,
+              ancestors,
+            });
+            removeMatch(match);
             continue;
           } else if (ancestors.includes(normalizedRef)) {
-            yield* Console.warn(
-              `[LoopDetectedError] Ancestor loop detected in content at ${currentPath} with reference: ${normalizedRef}`,
-            );
-            yield* Console.warn(`Removing looped reference: ${ref}`);
-            referencesToRemove.push(ref);
+            yield* reportDiagnostic({
+              kind: "ancestor-loop",
+              severity: "warning",
+              message: `[LoopDetectedError] Ancestor loop detected in content at ${currentPath} with reference: ${normalizedRef}. Removing looped reference: ${ref}`,
+              path: currentPath,
+              selector: ref,
+              ancestors,
+            });
+            removeMatch(match);
             continue;
           }
         }
 
         normalizedReferences.push(normalizedRef);
+        selectors[normalizedRef] ??= ref;
+        const slotKey = getSlotKey(slots, normalizedRef, args);
+        slots[slotKey] = { reference: normalizedRef, arguments: args };
 
         // Add to replacements if we need to normalize in content
         if (normalizeInContent) {
           replacements.push({
             start: match.index,
             end: referenceRegex.lastIndex,
-            replacement: `{{ ${normalizedRef} }}`,
+            replacement: `{{ ${slotKey} }}`,
           });
         }
       }
     }
 
-    // Remove any self-references or looped references from content
-    if (removeLoopedReferences && referencesToRemove.length > 0) {
-      const escapeRegExp = (str: string) =>
-        str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-      for (const refToRemove of referencesToRemove) {
-        const regex = new RegExp(
-          `\\{\\{\\s*${escapeRegExp(refToRemove)}\\s*\\}\\}`,
-          "g",
-        );
-        updatedContent = updatedContent.replace(regex, "");
-      }
-    }
-
-    // Replace all references in content with normalized versions (from last to first to not mess up indices)
-    if (normalizeInContent && replacements.length > 0) {
+    // Apply removals and normalizations (from last to first to not mess up indices)
+    if (replacements.length > 0) {
       let contentArr = updatedContent.split("");
       for (let i = replacements.length - 1; i >= 0; i--) {
         const { start, end, replacement } = replacements[i];
@@ -129,42 +347,120 @@ export const extractReferencesFromContent = (
 
     return {
       references: [...new Set(normalizedReferences)], // Remove duplicates
+      selectors,
+      slots,
+      variables: usedVariables,
+      replacements, // Applied to the content, in order
       content: updatedContent,
     };
   });
 
+// The variables reference conditions test, e.g. "mode" for {{ rules/safety-strict if $mode == "strict" }}
+const getConditionVariableNames = (content: string) =>
+  [...content.matchAll(/\{\{\s*([^\}]+)\s*\}\}/g)].flatMap((match) => {
+    const { condition } = parseReferenceSlot(match[1].trim());
+    const parsedCondition = condition === null ? null : parseReferenceCondition(condition);
+    return parsedCondition === null ? [] : [parsedCondition.variable];
+  });
+
 // Step 4: Extract and normalize references
-const extractAndNormalizeReferences = ({
+const extractAndNormalizeReferences = (
+  currentPath: string,
+  ancestors: string[],
+  options: ParseMarkdownOptions,
+) => ({
   content,
+  frontmatter,
+  variables,
+  origin,
   ...rest
 }: {
   content: string;
+  frontmatter: Record<string, any> | null;
+  variables: string[];
+  origin: ContentOrigin;
 }) =>
   Effect.gen(function* () {
-    const { references, content: newContent } =
-      yield* extractReferencesFromContent(content, {
-        normalizeInContent: true,
-      });
+    // Conditions see the same variables the template is rendered with (invalid declarations are reported on render),
+    // lazy variables included: those tested by a condition are resolved before the tree is complete when composing,
+    // while introspection keeps the references they condition
+    const evaluateConditions = options.evaluateConditions ?? true;
+    const undecidedVariables = evaluateConditions
+      ? yield* resolveProvidedVariables(getConditionVariableNames(content))
+      : [];
+    const conditionVariables =
+      evaluateConditions
+        ? yield* decodeVariableDeclarations(frontmatter?.variables ?? {}).pipe(
+            Effect.orElseSucceed(() => ({}) as VariableDeclarations),
+            Effect.flatMap((declarations) =>
+              getPathVariables(
+                { path: currentPath, frontmatter },
+                getDeclaredDefaults(declarations),
+                options.arguments,
+                options.inheritedOverrides,
+              ),
+            ),
+          )
+        : undefined;
+
+    const {
+      references,
+      selectors,
+      slots,
+      variables: conditionVariableNames,
+      replacements,
+      content: newContent,
+    } = yield* extractReferencesFromContent(content, {
+      currentPath,
+      ancestors,
+      normalizeInContent: true,
+      conditionVariables,
+      undecidedVariables,
+    });
 
     return {
       ...rest,
+      frontmatter,
       content: newContent,
+      variables: [...variables, ...conditionVariableNames],
       references,
+      selectors,
+      slots,
+      origin: replaceInOrigin(origin, replacements),
     } as ParsedMarkdownTemplate;
   });
 
+/**
+ * Options for parsing a single template.
+ *
+ * @property {boolean} [evaluateConditions] - When false, conditional references are all kept (e.g. for validation). Defaults to true
+ * @property {TemplateVariables} [arguments] - Arguments passed to this template by the slot including it, visible to its conditions
+ * @property {TemplateVariables} [inheritedOverrides] - Overrides inherited from its ancestors, visible to its conditions
+ */
+export interface ParseMarkdownOptions {
+  evaluateConditions?: boolean;
+  arguments?: TemplateVariables;
+  inheritedOverrides?: TemplateVariables;
+}
+
 // Main Exportable Program
-export const parseMarkdown = (templateSelector: string) =>
+export const parseMarkdown = (
+  templateSelector: string,
+  ancestors: string[] = [],
+  options: ParseMarkdownOptions = {},
+) =>
   pipe(
-    getContentRelative(templateSelector),
-    Effect.flatMap((content) =>
-      Effect.if(content !== null, {
+    getContentRelative(templateSelector, ancestors),
+    Effect.flatMap((templateFile) =>
+      Effect.if(templateFile !== null, {
         onTrue: () =>
           pipe(
-            Effect.succeed(content as string), // Type assertion since we know content is not null; This might be solved by using branded types (unsure)
-            Effect.flatMap(parseFrontmatter),
+            Effect.succeed(templateFile as TemplateFile), // Type assertion since we know the file is not null; This might be solved by using branded types (unsure)
+            Effect.flatMap(parseFrontmatter(templateSelector, ancestors)),
             Effect.flatMap(extractVariables),
-            Effect.flatMap(extractAndNormalizeReferences),
+            Effect.flatMap(
+              extractAndNormalizeReferences(templateSelector, ancestors, options),
+            ),
             Effect.map((templateNode) => ({ ...templateNode, path: templateSelector })),
           ),
         onFalse: () =>
@@ -174,6 +470,9 @@ export const parseMarkdown = (templateSelector: string) =>
             content: '',
             variables: [],
             references: [],
+            selectors: {},
+            slots: {},
+            origin: createContentOrigin(null, '', ''),
           }),
       })
     )
@@ -0,0 +1,45 @@
+import type { TemplateVariables } from './decodeVariables';
+
+/**
+ * A reference slot split into the selector it references, the arguments passed to the referenced template
+ * and its optional `if` condition, e.g. `rules/limits maxAttempts=5 tone="formal" if $mode == "strict"`
+ * or `#special-rules > Escalation tone="formal"`.
+ */
+export interface ReferenceSlot {
+  selector: string;
+  arguments: TemplateVariables;
+  condition: string | null;
+}
+
+// The selector may select a section by heading, whose words run until the arguments or the condition
+const slotRegex =
+  /^(\S+(?:\s*>\s*[^\s=]+(?:\s+(?!if\s)[^\s=]+)*?)?)((?:\s+[a-zA-Z0-9_\-]+=(?:"[^"]*"|'[^']*'|[^\s"']+))*)(?:\s+if\s+(.+))?$/;
+const argumentRegex = /([a-zA-Z0-9_\-]+)=("[^"]*"|'[^']*'|[^\s"']+)/g;
+
+/**
+ * Parses a literal value: quoted strings, booleans, numbers and bare words.
+ * Returns null when the literal is none of them.
+ */
+export const parseLiteral = (literal: string): string | number | boolean | null => {
+  const quoted = /^"([^"]*)"$|^'([^']*)'$/.exec(literal);
+  if (quoted) return quoted[1] ?? quoted[2];
+  if (literal === 'true' || literal === 'false') return literal === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(literal)) return Number(literal);
+  if (/^[a-zA-Z0-9_\-]+$/.test(literal)) return literal;
+  return null;
+};
+
+// Splits the content of a reference slot into its selector, its arguments and its condition.
+// Slots that do not follow the syntax are returned whole as the selector, to be reported as invalid selectors.
+export const parseReferenceSlot = (slot: string): ReferenceSlot => {
+  const match = slotRegex.exec(slot);
+  if (!match) return { selector: slot, arguments: {}, condition: null };
+
+  const [, selector, argumentList, condition] = match;
+  const args: Record<string, string | number | boolean> = {};
+  for (const [, name, literal] of argumentList.matchAll(argumentRegex)) {
+    args[name] = parseLiteral(literal) ?? literal;
+  }
+
+  return { selector, arguments: args, condition: condition?.trim() ?? null };
+};
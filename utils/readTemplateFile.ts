@@ -0,0 +1,84 @@
+import path from 'path';
+import fs from 'fs';
+import matter from 'gray-matter';
+
+/**
+ * A markdown template file, read and split into frontmatter and content.
+ *
+ * @property {string} filePath - Absolute path of the markdown file
+ * @property {number} mtimeMs - Modification time of the file when it was read
+ * @property {string} source - The raw content of the file
+ * @property {Record<string, any> | null} frontmatter - Parsed YAML frontmatter data, null when there is none
+ * @property {string} content - The content of the file, without its frontmatter
+ * @property {string} [layer] - The layer the file was read from, when several sources are layered (see `compositeSource`)
+ * @property {string} [frontmatterError] - Why the frontmatter could not be parsed, when it is not valid YAML
+ */
+export interface TemplateFile {
+  filePath: string;
+  mtimeMs: number;
+  source: string;
+  frontmatter: Record<string, any> | null;
+  content: string;
+  layer?: string;
+  frontmatterError?: string;
+}
+
+/**
+ * Parsed template files, keyed by absolute file path.
+ * An entry is only reused while the modification time of its file is unchanged.
+ */
+export type TemplateCache = Map<string, TemplateFile>;
+
+/**
+ * Reads and parses a markdown template file, reusing the cached parse when the file was not modified since.
+ * Returns null when the file does not exist.
+ */
+export const readTemplateFile = (filePath: string, cache?: TemplateCache): TemplateFile | null => {
+  const absFilePath = path.resolve(process.cwd(), filePath);
+  const stats = fs.statSync(absFilePath, { throwIfNoEntry: false });
+  if (!stats?.isFile()) {
+    cache?.delete(absFilePath);
+    return null;
+  }
+
+  const cached = cache?.get(absFilePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs) return cached;
+
+  const templateFile = parseTemplateFile(
+    absFilePath,
+    fs.readFileSync(absFilePath, 'utf-8'),
+    stats.mtimeMs
+  );
+  cache?.set(absFilePath, templateFile);
+  return templateFile;
+};
+
+// A frontmatter block, delimited like gray-matter delimits it
+const frontmatterBlockRegex = /^---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Splits the raw markdown of a template into frontmatter and content.
+ * A frontmatter that is not valid YAML is ignored, the error being kept to be reported when the template is used.
+ */
+export const parseTemplateFile = (filePath: string, source: string, mtimeMs = 0): TemplateFile => {
+  try {
+    // Options bypass the cache of gray-matter, which would return a source that failed to parse as if it had no frontmatter
+    const parsed = matter(source, {});
+    return {
+      filePath,
+      mtimeMs,
+      source,
+      frontmatter: Object.keys(parsed.data).length > 0 ? parsed.data : null,
+      content: parsed.content,
+    };
+  } catch (error) {
+    return {
+      filePath,
+      mtimeMs,
+      source,
+      frontmatter: null,
+      content: source.replace(frontmatterBlockRegex, ''), // The raw block never reaches the composed content
+      frontmatterError: (error instanceof Error ? error.message : String(error)).split('\n')[0],
+    };
+  }
+};
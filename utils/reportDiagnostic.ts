@@ -0,0 +1,93 @@
+import { Effect, Context, Option, Console } from 'effect';
+
+// Type Definitions
+export type DiagnosticKind =
+  | 'missing-template'
+  | 'unresolved-selector'
+  | 'self-reference'
+  | 'ancestor-loop'
+  | 'duplicate-id'
+  | 'unset-variable'
+  | 'invalid-selector'
+  | 'circular-reference'
+  | 'orphan-template'
+  | 'invalid-variable-declaration'
+  | 'missing-required-variable'
+  | 'invalid-variable-type'
+  | 'invalid-condition'
+  | 'conditional-reference'
+  | 'budget-trimmed'
+  | 'budget-exceeded'
+  | 'template-layer'
+  | 'variable-resolution-failed'
+  | 'filter-failed'
+  | 'invalid-data-file'
+  | 'invalid-frontmatter'
+  | 'watch-failed';
+
+export type DiagnosticSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * A single problem (or notable decision) encountered while composing a template.
+ *
+ * @property {DiagnosticKind} kind - What happened (e.g. 'missing-template', 'ancestor-loop')
+ * @property {DiagnosticSeverity} severity - How serious the problem is
+ * @property {string} message - Human readable description, the same text that is logged to the console
+ * @property {string | null} path - Relative path of the template in which the problem was found, null at the root level
+ * @property {string} selector - The offending selector, as written or as normalized
+ * @property {string[]} ancestors - Ancestor chain of the template in which the problem was found, root first
+ */
+export interface MosaicDiagnostic {
+  kind: DiagnosticKind;
+  severity: DiagnosticSeverity;
+  message: string;
+  path: string | null;
+  selector: string;
+  ancestors: string[];
+}
+
+/**
+ * Diagnostic kinds that make a strict composition fail.
+ */
+export const strictDiagnosticKinds: DiagnosticKind[] = [
+  'missing-template',
+  'unresolved-selector',
+  'self-reference',
+  'ancestor-loop',
+  'duplicate-id',
+  'unset-variable',
+  'invalid-selector',
+  'invalid-variable-declaration',
+  'missing-required-variable',
+  'invalid-variable-type',
+  'invalid-condition',
+  'budget-exceeded',
+  'variable-resolution-failed',
+  'filter-failed',
+  'invalid-data-file',
+  'invalid-frontmatter',
+];
+
+// Context
+export class Diagnostics extends Context.Tag('Diagnostics')<
+  Diagnostics,
+  {
+    readonly report: (diagnostic: MosaicDiagnostic) => Effect.Effect<void>;
+  }
+>() {}
+
+/**
+ * Reports a diagnostic to the Diagnostics service from the context.
+ * When no Diagnostics service is provided, the diagnostic message is logged as a console warning
+ * (informational diagnostics are dropped).
+ */
+export const reportDiagnostic = (diagnostic: MosaicDiagnostic) =>
+  Effect.gen(function* () {
+    const diagnostics = yield* Effect.serviceOption(Diagnostics);
+
+    if (Option.isNone(diagnostics)) {
+      if (diagnostic.severity !== 'info') yield* Console.warn(diagnostic.message);
+      return;
+    }
+    return yield* diagnostics.value.report(diagnostic);
+  });
@@ -0,0 +1,76 @@
+import type { TemplateVariables } from './decodeVariables';
+import type { TemplateOverrides } from './decodeTemplateOverrides';
+import { splitSectionPath } from './templateSection';
+
+// The parts of a template needed to match override keys
+type OverriddenTemplate = {
+  path: string;
+  frontmatter: Record<string, any> | null;
+};
+
+/**
+ * Tells whether an override key is a pattern matching several templates, rather than a single selector:
+ * a frontmatter tag (`tag:customer-facing`), a glob (`agents/**`, `rules/*`) or a directory (`agents/`).
+ */
+export const isOverridePattern = (key: string) =>
+  key.startsWith('tag:') || key.includes('*') || key.endsWith('/');
+
+// Converts a glob into a regular expression: `**` matches across directories, `*` within a single one
+const globToRegExp = (glob: string) => {
+  const wildcards: Record<string, string> = { '**/': '(?:.*/)?', '**': '.*', '*': '[^/]*' };
+  const source = glob
+    .split(/(\*\*\/?|\*)/)
+    .map((part) => wildcards[part] ?? part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`);
+};
+
+// Reads the frontmatter tags of a template, written either as a list or as a single tag
+const getTags = (template: OverriddenTemplate): string[] => {
+  const tags = template.frontmatter?.tags;
+  if (Array.isArray(tags)) return tags.map(String);
+  return typeof tags === 'string' ? [tags] : [];
+};
+
+/**
+ * Ranks an override key by specificity: tags (0), then globs and directories (1), then exact paths (2),
+ * then sections (3). Among globs, more literal characters rank higher.
+ */
+const getSpecificity = (key: string): [number, number] => {
+  if (key.startsWith('tag:')) return [0, 0];
+  if (isOverridePattern(key)) return [1, key.replace(/\*/g, '').length];
+  return splitSectionPath(key).section === null ? [2, 0] : [3, 0];
+};
+
+/**
+ * Tells whether an override key (normalized by `normalizeOverridesPaths`) applies to a template.
+ * Keys of a whole template also apply to its sections (e.g. "rules/general-rules" to "rules/general-rules#safety").
+ */
+export const matchesOverrideKey = (key: string, template: OverriddenTemplate) => {
+  const { templatePath } = splitSectionPath(template.path);
+  if (key.startsWith('tag:')) return getTags(template).includes(key.slice('tag:'.length));
+  if (key.endsWith('/')) return templatePath.startsWith(key);
+  if (key.includes('*')) return globToRegExp(key).test(templatePath);
+  return key === template.path || key === templatePath;
+};
+
+/**
+ * Merges every override applying to a template, from the least to the most specific key:
+ * `tag:` keys, then globs and directories, then the exact path, then the section. Keys of the same specificity apply in the order provided.
+ */
+export const resolveTemplateOverrides = (
+  overrides: TemplateOverrides,
+  template: OverriddenTemplate
+): TemplateVariables => {
+  const matching = Object.keys(overrides)
+    .filter((key) => matchesOverrideKey(key, template))
+    .map((key, order) => ({ key, order, specificity: getSpecificity(key) }))
+    .sort(
+      (a, b) =>
+        a.specificity[0] - b.specificity[0] ||
+        a.specificity[1] - b.specificity[1] ||
+        a.order - b.order
+    );
+
+  return Object.assign({}, ...matching.map(({ key }) => overrides[key]));
+};
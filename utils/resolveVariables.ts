@@ -0,0 +1,87 @@
+import { Effect, Either, Schema } from 'effect';
+
+import type { TemplateTreeNode } from './buildTemplateTree';
+import { type TemplateVariableValue, TemplateVariableValueSchema } from './decodeVariables';
+import { reportDiagnostic } from './reportDiagnostic';
+
+/**
+ * Computes the value of a variable only when a composed template uses it, at most once per composition.
+ * Resolvers returning a promise are only awaited by `composeAsync`.
+ */
+export type VariableResolver = () => TemplateVariableValue | PromiseLike<TemplateVariableValue>;
+
+/**
+ * Variables as given to `provideVariables`: values, or resolvers computing them on demand.
+ */
+export type ProvidedVariables = Record<string, TemplateVariableValue | VariableResolver>;
+
+/**
+ * The values of the lazy variables resolved by a single composition, undefined when their resolver failed.
+ */
+export type ResolvedVariables = Map<string, TemplateVariableValue | undefined>;
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Calls a resolver, awaiting the promise it returns when asynchronous resolution is allowed
+const callResolver = (resolver: VariableResolver, allowAsync: boolean) =>
+  Effect.gen(function* () {
+    const result = yield* Effect.try({ try: () => resolver(), catch: getErrorMessage });
+    if (!isPromiseLike(result)) return result as unknown;
+    if (!allowAsync) {
+      Promise.resolve(result).catch(() => {}); // Never awaited, its failure is not reported either
+      return yield* Effect.fail('it returned a promise, use composeAsync to resolve it');
+    }
+    return yield* Effect.tryPromise({ try: () => Promise.resolve(result), catch: getErrorMessage });
+  });
+
+/**
+ * Resolves the lazy variables among the given names that were not resolved yet, storing their values.
+ * Resolvers failing, returning a promise in a synchronous composition or returning a value that cannot be a variable
+ * are reported as a `variable-resolution-failed` diagnostic, and their variable is left unset.
+ * Asynchronous resolvers run concurrently.
+ */
+export const resolveLazyVariables = (
+  resolvers: Record<string, VariableResolver>,
+  resolved: ResolvedVariables,
+  names: string[],
+  allowAsync: boolean
+) =>
+  Effect.forEach(
+    [...new Set(names)].filter((name) => name in resolvers && !resolved.has(name)),
+    (name) => {
+      resolved.set(name, undefined); // A resolver is called once per composition, even when it fails
+      return callResolver(resolvers[name], allowAsync).pipe(
+        Effect.flatMap((value) =>
+          Either.isRight(Schema.decodeUnknownEither(TemplateVariableValueSchema)(value))
+            ? Effect.sync(() => resolved.set(name, value as TemplateVariableValue))
+            : Effect.fail(`it returned ${JSON.stringify(value)}, which is not a valid variable value`)
+        ),
+        Effect.catchAll((reason) =>
+          reportDiagnostic({
+            kind: 'variable-resolution-failed',
+            severity: 'warning',
+            message: `Could not resolve variable "$${name}": ${reason}. Rendering an empty string...`,
+            path: null,
+            selector: `$${name}`,
+            ancestors: [],
+          })
+        )
+      );
+    },
+    { concurrency: allowAsync ? 'unbounded' : 1, discard: true }
+  );
+
+/**
+ * Every variable a template tree uses or declares in frontmatter, by base name (e.g. "user" for `{{ $user.name }}`).
+ */
+export const collectTreeVariables = (node: TemplateTreeNode): string[] => {
+  const declarations = node.frontmatter?.variables;
+  return [
+    ...node.variables,
+    ...(typeof declarations === 'object' && declarations !== null ? Object.keys(declarations) : []),
+    ...(node.children ?? []).flatMap(collectTreeVariables),
+  ];
+};
@@ -0,0 +1,229 @@
+import Mustache from 'mustache';
+
+import { type ContentLayout, layoutChildContent } from './layoutContent';
+import { restoreLiteralBraces } from './templateSyntax';
+import { type FilterFailure, type VariableFilter, applyFilters, builtInFilters, parseFilteredTag } from './variableFilters';
+
+/**
+ * Where the characters of a template content come from in its markdown file.
+ * Kept aligned with the content every time it is rewritten (frontmatter removal, reference normalization, loop pruning),
+ * so composed output can be traced back to the file.
+ *
+ * @property {string | null} filePath - Absolute path of the markdown file, null when the template does not exist
+ * @property {string} source - The raw content of the markdown file
+ * @property {number[]} offsets - File offset of each character of the content, plus one for the end of the content
+ */
+export interface ContentOrigin {
+  filePath: string | null;
+  source: string;
+  offsets: number[];
+}
+
+/**
+ * A range of composed output, mapped to the template that produced it.
+ *
+ * @property {number} start - Start offset in the composed output (inclusive)
+ * @property {number} end - End offset in the composed output (exclusive)
+ * @property {string} path - Relative path of the template that produced the range
+ * @property {string | null} filePath - Absolute path of its markdown file
+ * @property {number} line - Line in the markdown file where the range comes from (1-based, frontmatter included)
+ * @property {number} column - Column in the markdown file where the range comes from (1-based)
+ * @property {string[]} ancestors - Include chain of the template, root first
+ * @property {string | null} variable - The variable whose value was interpolated (e.g. '$user.name'), null for template text
+ */
+export interface SourceMapSegment {
+  start: number;
+  end: number;
+  path: string;
+  filePath: string | null;
+  line: number;
+  column: number;
+  ancestors: string[];
+  variable: string | null;
+}
+
+/**
+ * A replacement of the content range [start, end).
+ */
+export interface ContentReplacement {
+  start: number;
+  end: number;
+  replacement: string;
+}
+
+// The origin of a content read from a file, after its frontmatter was removed (or of a single section of it)
+export const createContentOrigin = (
+  filePath: string | null,
+  source: string,
+  content: string
+): ContentOrigin => {
+  // gray-matter leaves the content as the end of the file, a section is found where it starts
+  const contentStart = source.endsWith(content)
+    ? source.length - content.length
+    : Math.max(source.indexOf(content), 0);
+  return {
+    filePath,
+    source,
+    offsets: Array.from({ length: content.length + 1 }, (_, index) => contentStart + index),
+  };
+};
+
+/**
+ * Applies replacements (sorted and not overlapping) to the offsets of an origin,
+ * mapping every replacement character to the start of the range it replaces.
+ */
+export const replaceInOrigin = (
+  origin: ContentOrigin,
+  replacements: ContentReplacement[]
+): ContentOrigin => {
+  const offsets = [...origin.offsets];
+  for (let i = replacements.length - 1; i >= 0; i--) {
+    const { start, end, replacement } = replacements[i];
+    offsets.splice(start, end - start, ...Array(replacement.length).fill(offsets[start]));
+  }
+  return { ...origin, offsets };
+};
+
+// Converts a file offset to a 1-based line and column
+const getLineAndColumn = (source: string, offset: number) => {
+  const lines = source.slice(0, offset).split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// The parts of a template node needed to render it with a source map
+type MappedTemplate = {
+  path: string;
+  content: string;
+  ancestors: string[];
+  origin: ContentOrigin;
+};
+
+// The parts of an already rendered child needed to insert its source map
+type MappedChild = {
+  slot: string;
+  content: string;
+  sourceMap?: SourceMapSegment[];
+};
+
+/**
+ * Renders the content of a template with mustache, token by token, mapping every range of the output
+ * to the template text, the interpolated variable or the rendered child it comes from.
+ * Children source maps are shifted into the output, so the map covers the whole composed tree.
+ * Children are laid out in the output as the given layout asks (see ContentLayout),
+ * and literal braces protected from parsing are restored (see prepareTemplateContent).
+ * Variables are piped through the filters written in their tags (e.g. `{{ $name | upper }}`), in sections too:
+ * the filters that could not be applied are returned with the rendered content.
+ */
+export const renderWithSourceMap = (
+  template: MappedTemplate,
+  view: Record<string, unknown>,
+  children: MappedChild[],
+  layout: ContentLayout = {},
+  filters: Record<string, VariableFilter> = builtInFilters
+) => {
+  const tokens = Mustache.parse(template.content);
+  const writer = new Mustache.Writer();
+  const context = new Mustache.Context(view);
+  const filterFailures: FilterFailure[] = [];
+
+  // Filtered tags are looked up by their variable, then piped through their filters
+  const renderValue = (tag: string, lookupContext: Mustache.Context) => {
+    const filtered = parseFilteredTag(tag);
+    if (filtered === null) return lookupContext.lookup(tag);
+    const { value, failures } = applyFilters(
+      filtered.expression,
+      lookupContext.lookup(filtered.expression),
+      filtered.filters,
+      filters
+    );
+    filterFailures.push(...failures);
+    return value;
+  };
+  writer.escapedValue = writer.unescapedValue = (token: string[], lookupContext: Mustache.Context) => {
+    const value = renderValue(token[1], lookupContext);
+    return value == null ? '' : String(value);
+  };
+  const childrenBySlot = new Map(children.map((child) => [child.slot, child]));
+
+  let content = '';
+  // The output of the template's own text and variables, without its children
+  let parentText = '';
+  let sourceMap: SourceMapSegment[] = [];
+  // Characters of the next text token dropped with the line of an empty child
+  let skippedText = 0;
+
+  // Maps an output range to a position of the template content
+  const addSegment = (length: number, contentIndex: number, variable: string | null) => {
+    if (length === 0) return;
+    const offset = template.origin.offsets[contentIndex] ?? 0;
+    sourceMap.push({
+      start: content.length,
+      end: content.length + length,
+      path: template.path,
+      filePath: template.origin.filePath,
+      ...getLineAndColumn(template.origin.source, offset),
+      ancestors: template.ancestors,
+      variable,
+    });
+  };
+
+  for (const [index, token] of tokens.entries()) {
+    const [type, value, start] = token;
+    const rendered = writer.renderTokens([token] as unknown as string[][], context, undefined, template.content);
+    const child = type === 'name' || type === '&' ? childrenBySlot.get(value) : undefined;
+
+    if (type === 'text') {
+      // One segment per line, so every output line points to its own source line
+      let lineStart = skippedText;
+      for (const line of restoreLiteralBraces(rendered.slice(skippedText)).split(/(?<=\n)/)) {
+        addSegment(line.length, start + lineStart, null);
+        lineStart += line.length;
+        content += line;
+        parentText += line;
+      }
+      skippedText = 0;
+      continue;
+    }
+    skippedText = 0;
+
+    if (child !== undefined) {
+      const laidOut = layoutChildContent(
+        { content: rendered, sourceMap: child.sourceMap ?? [] },
+        content,
+        parentText,
+        layout
+      );
+
+      // An empty child alone on its line takes its line with it
+      const lineStart = content.lastIndexOf('\n') + 1;
+      const next = tokens[index + 1];
+      const lineEnd = next === undefined ? [''] : next[0] === 'text' ? /^[ \t]*\r?\n/.exec(next[1]) : null;
+      if (layout.collapseBlankLines && laidOut.content === '' && content.slice(lineStart).trim() === '' && lineEnd) {
+        content = content.slice(0, lineStart);
+        sourceMap = sourceMap
+          .filter((segment) => segment.start < lineStart)
+          .map((segment) => ({ ...segment, end: Math.min(segment.end, lineStart) }));
+        skippedText = lineEnd[0].length;
+        continue;
+      }
+
+      // The child was rendered first: shift its own source map into this output
+      for (const segment of laidOut.sourceMap) {
+        sourceMap.push({
+          ...segment,
+          start: segment.start + content.length,
+          end: segment.end + content.length,
+        });
+      }
+      content += laidOut.content;
+      continue;
+    }
+
+    const variable = parseFilteredTag(value)?.expression ?? value;
+    addSegment(rendered.length, start, variable.startsWith('$') ? variable : null);
+    content += restoreLiteralBraces(rendered);
+    parentText += restoreLiteralBraces(rendered);
+  }
+
+  return { content, sourceMap, filterFailures };
+};
@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { Data, Effect, Either, Schema } from 'effect';
+
+import { Directory } from './normalizeToRelativeSelector';
+import { type TemplateIndexEntry, createTemplateIndexEntry } from './buildTemplateIndex';
+import type { TemplateFile } from './readTemplateFile';
+import type { TemplateSource } from './templateSource';
+import type { DataFile } from './buildTemplateData';
+
+/**
+ * Version of the bundle format written by `Mosaic.bundle`. Bundles of another version are rejected.
+ */
+export const TEMPLATE_BUNDLE_VERSION = 1;
+
+// Schema Definitions
+const BundledTemplateSchema = Schema.Struct({
+  path: Schema.String,
+  source: Schema.String,
+  frontmatter: Schema.NullOr(Schema.Record({ key: Schema.String, value: Schema.Unknown })),
+  content: Schema.String,
+  frontmatterError: Schema.optional(Schema.String),
+});
+
+const BundledDataFileSchema = Schema.Struct({
+  path: Schema.String,
+  source: Schema.String,
+});
+
+const TemplateBundleSchema = Schema.Struct({
+  version: Schema.Literal(TEMPLATE_BUNDLE_VERSION),
+  checksum: Schema.String,
+  templates: Schema.Array(BundledTemplateSchema),
+  ids: Schema.Record({ key: Schema.String, value: Schema.Array(Schema.String) }),
+  data: Schema.optional(Schema.Array(BundledDataFileSchema)),
+});
+
+/**
+ * A single template of a bundle.
+ *
+ * @property {string} path - Normalized relative path without extension (e.g., "agents/main-agent")
+ * @property {string} source - The raw content of the markdown file
+ * @property {Record<string, unknown> | null} frontmatter - Parsed YAML frontmatter data
+ * @property {string} content - The content of the file, without its frontmatter
+ * @property {string} [frontmatterError] - Why the frontmatter could not be parsed, when it is not valid YAML
+ */
+export type BundledTemplate = typeof BundledTemplateSchema.Type;
+
+/**
+ * A whole instructions directory precompiled into a single JSON artifact, composed without a filesystem.
+ *
+ * @property {number} version - Version of the bundle format
+ * @property {string} checksum - SHA-256 of the paths and sources of every template and data file, to check the bundle matches its directory
+ * @property {BundledTemplate[]} templates - Every template, sorted by path
+ * @property {Record<string, string[]>} ids - Paths of the templates declaring each frontmatter id, in path order
+ * @property {{ path: string; source: string }[]} [data] - Every YAML and JSON data file, by relative path with its extension
+ */
+export type TemplateBundle = typeof TemplateBundleSchema.Type;
+
+// Error Definitions
+export class InvalidBundleError extends Data.TaggedError('InvalidBundleError')<{
+  message: string;
+}> {}
+
+// The checksum of a set of templates and data files: only their paths and sources matter, everything else is derived from them
+const getBundleChecksum = (templates: ReadonlyArray<{ path: string; source: string }>) => {
+  const hash = createHash('sha256');
+  for (const { path, source } of templates) {
+    hash.update(`${path}\0${source}\0`);
+  }
+  return hash.digest('hex');
+};
+
+/**
+ * Reads every template of the instructions directory into a bundle, with its id index and the given data files.
+ */
+export const createTemplateBundle = (dataFiles: DataFile[] = []) =>
+  Effect.gen(function* () {
+    const directory = yield* Directory;
+    const templateIndex = yield* directory.templateIndex;
+
+    const templates = yield* Effect.forEach(templateIndex.templates, (entry) =>
+      Effect.gen(function* () {
+        const templateFile = yield* directory.readTemplate(entry.path);
+
+        return {
+          path: entry.path,
+          source: templateFile?.source ?? '',
+          frontmatter: templateFile?.frontmatter ?? null,
+          content: templateFile?.content ?? '',
+          ...(templateFile?.frontmatterError !== undefined && { frontmatterError: templateFile.frontmatterError }),
+        } satisfies BundledTemplate;
+      })
+    );
+
+    const ids = Object.fromEntries(
+      Object.entries(templateIndex.ids).map(([id, entries]) => [id, entries.map((entry) => entry.path)])
+    );
+
+    const data = dataFiles.map(({ path, source }) => ({ path, source }));
+
+    return {
+      version: TEMPLATE_BUNDLE_VERSION,
+      checksum: getBundleChecksum([...templates, ...data]),
+      templates,
+      ids,
+      data,
+    } satisfies TemplateBundle;
+  });
+
+/**
+ * Decodes a bundle, given as an object or as its JSON, failing with an InvalidBundleError
+ * when it is malformed or of another version of the format.
+ */
+export const decodeTemplateBundle = (bundle: TemplateBundle | string) =>
+  Effect.gen(function* () {
+    const json = yield* Effect.try({
+      try: () => (typeof bundle === 'string' ? JSON.parse(bundle) : bundle),
+      catch: () => new InvalidBundleError({ message: 'Template bundle is not valid JSON.' }),
+    });
+
+    const decoded = Schema.decodeUnknownEither(TemplateBundleSchema)(json);
+    if (Either.isLeft(decoded)) {
+      return yield* Effect.fail(
+        new InvalidBundleError({
+          message: `Template bundle is not valid (expected version ${TEMPLATE_BUNDLE_VERSION}).`,
+        })
+      );
+    }
+
+    return decoded.right;
+  });
+
+/**
+ * A source reading the templates of a decoded bundle, without any filesystem.
+ * Bundled templates report their file path relative to the bundled directory (e.g. "agents/main-agent.md").
+ */
+export const bundleSource = (bundle: TemplateBundle): TemplateSource => {
+  const files = new Map<string, TemplateFile>();
+  const entries = new Map<string, TemplateIndexEntry>();
+
+  for (const template of bundle.templates) {
+    const filePath = `${template.path}.md`;
+    const frontmatter = template.frontmatter as Record<string, any> | null;
+    files.set(template.path, {
+      filePath,
+      mtimeMs: 0,
+      source: template.source,
+      frontmatter,
+      content: template.content,
+      frontmatterError: template.frontmatterError,
+    });
+    entries.set(template.path, createTemplateIndexEntry(template.path, filePath, frontmatter));
+  }
+
+  return {
+    list: () => [...entries.values()],
+    read: (templatePath) => files.get(templatePath) ?? null,
+    resolveId: (id) => (bundle.ids[id] ?? []).flatMap((templatePath) => entries.get(templatePath) ?? []),
+    data: () => (bundle.data ?? []).map(({ path, source }) => ({ path, filePath: path, source })),
+  };
+};
@@ -0,0 +1,83 @@
+/**
+ * Converts a heading to its anchor, the way GitHub does: lowercased, punctuation removed, spaces replaced by dashes.
+ * e.g. "Escalation Policy (v2)" -> "escalation-policy-v2"
+ */
+export const slugifyHeading = (heading: string) =>
+  heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+
+/**
+ * Splits a selector into the selector of its template and the anchor of its section, null when it has none.
+ * Sections are selected by anchor (`rules/general-rules#safety`) or by heading (`#special-rules > Escalation`).
+ */
+export const splitSectionSelector = (selector: string) => {
+  const headingStart = selector.indexOf('>');
+  if (headingStart !== -1) {
+    return {
+      selector: selector.slice(0, headingStart).trim(),
+      section: slugifyHeading(selector.slice(headingStart + 1)),
+    };
+  }
+
+  // A leading '#' is an id selector, not an anchor
+  const anchorStart = selector.lastIndexOf('#');
+  return anchorStart > 0
+    ? { selector: selector.slice(0, anchorStart), section: selector.slice(anchorStart + 1) }
+    : { selector, section: null };
+};
+
+/**
+ * Splits a normalized template path into the path of its file and the anchor of its section, null when it has none.
+ * e.g. "rules/general-rules#safety" -> { templatePath: "rules/general-rules", section: "safety" }
+ */
+export const splitSectionPath = (path: string) => {
+  const anchorStart = path.indexOf('#');
+  return anchorStart === -1
+    ? { templatePath: path, section: null }
+    : { templatePath: path.slice(0, anchorStart), section: path.slice(anchorStart + 1) };
+};
+
+const headingRegex = /^(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const fenceRegex = /^[ \t]*(`{3,}|~{3,})/;
+
+/**
+ * Extracts a section from a markdown content: the heading whose anchor matches and everything up to the next heading
+ * of the same or a higher level. Duplicate headings get numbered anchors ("examples", "examples-1"...), as on GitHub.
+ * Headings inside fenced code blocks are ignored. Returns null when no heading matches.
+ */
+export const extractSection = (content: string, section: string) => {
+  const anchorCounts = new Map<string, number>();
+  let fence: string | null = null;
+  let start = -1;
+  let level = 0;
+  let offset = 0;
+  let end = content.length;
+
+  for (const line of content.split(/(?<=\n)/)) {
+    const fenceMatch = fenceRegex.exec(line);
+    if (fenceMatch && (fence === null || fenceMatch[1].startsWith(fence))) {
+      fence = fence === null ? fenceMatch[1] : null;
+    } else if (fence === null) {
+      const heading = headingRegex.exec(line.replace(/\r?\n$/, ''));
+      if (heading && start !== -1 && heading[1].length <= level) {
+        end = offset;
+        break;
+      }
+      if (heading && start === -1) {
+        const anchor = slugifyHeading(heading[2]);
+        const count = anchorCounts.get(anchor) ?? 0;
+        anchorCounts.set(anchor, count + 1);
+        if ((count === 0 ? anchor : `${anchor}-${count}`) === section) {
+          start = offset;
+          level = heading[1].length;
+        }
+      }
+    }
+    offset += line.length;
+  }
+
+  return start === -1 ? null : content.slice(start, end).trimEnd();
+};
@@ -0,0 +1,206 @@
+import path from 'path';
+import { Effect } from 'effect';
+
+import {
+  type TemplateIndex,
+  type TemplateIndexEntry,
+  buildTemplateIndex,
+  createTemplateIndexEntry,
+  indexTemplates,
+} from './buildTemplateIndex';
+import {
+  type TemplateCache,
+  type TemplateFile,
+  parseTemplateFile,
+  readTemplateFile,
+} from './readTemplateFile';
+import { watchTemplateFiles } from './watchTemplateFiles';
+import {
+  type DataFile,
+  type DataFileCache,
+  getDataPath,
+  hasDataFileExtension,
+  isDataFile,
+  listDataFiles,
+  readDataFile,
+} from './buildTemplateData';
+import { splitSectionPath } from './templateSection';
+
+/**
+ * Where a Mosaic instance reads its templates from. Templates are addressed by their relative path
+ * without extension (e.g. "agents/main-agent"), whatever the storage behind them.
+ *
+ * @property {string} [name] - Name of the source, telling layers apart in diagnostics (e.g. the directory path)
+ * @property {() => TemplateIndexEntry[]} list - Every template of the source, sorted by path
+ * @property {(templatePath: string) => TemplateFile | null} read - Reads a template, null when it does not exist
+ * @property {(id: string) => TemplateIndexEntry[]} resolveId - The templates declaring a frontmatter id, the one to use first
+ * @property {() => DataFile[]} [data] - Every YAML and JSON data file of the source, sorted by path. Sources without it have no data.
+ * @property {(onChange: (changedPaths: string[]) => void, onError?: (error: unknown) => void) => () => void} [watch] - Notifies
+ * the changed files (relative paths with their extension, or directories), and the errors of the watch, until the returned function
+ * is called. Sources without it never change.
+ */
+export interface TemplateSource {
+  name?: string;
+  list: () => TemplateIndexEntry[];
+  read: (templatePath: string) => TemplateFile | null;
+  resolveId: (id: string) => TemplateIndexEntry[];
+  data?: () => DataFile[];
+  watch?: (onChange: (changedPaths: string[]) => void, onError?: (error: unknown) => void) => () => void;
+}
+
+/**
+ * A source reading the markdown files of a directory.
+ * Files (templates and data files) are read once and served from a cache for as long as their modification time is unchanged.
+ */
+export const directorySource = (instructionsDir: string): TemplateSource => {
+  const absInstructionsDir = path.resolve(process.cwd(), instructionsDir);
+  const cache: TemplateCache = new Map();
+  const dataCache: DataFileCache = new Map();
+  let templateIndex: TemplateIndex | null = null;
+  let dataPaths: string[] | null = null;
+
+  const getTemplateIndex = () =>
+    (templateIndex ??= Effect.runSync(buildTemplateIndex(absInstructionsDir, cache)));
+
+  return {
+    name: instructionsDir,
+    list: () => getTemplateIndex().templates,
+    read: (templatePath) =>
+      readTemplateFile(path.join(absInstructionsDir, `${templatePath}.md`), cache),
+    resolveId: (id) => getTemplateIndex().ids[id] ?? [],
+    data: () =>
+      (dataPaths ??= listDataFiles(absInstructionsDir)).flatMap(
+        (file) => readDataFile(absInstructionsDir, file, dataCache) ?? []
+      ),
+    watch: (onChange, onError) =>
+      watchTemplateFiles(
+        absInstructionsDir,
+        (changedPaths) => {
+          // Only the changed files are parsed again: the index is rebuilt from the cache of the others
+          for (const filePath of cache.keys()) {
+            const changedPath = path.relative(absInstructionsDir, filePath).split(path.sep).join('/');
+            if (changedPaths.some((changed) => changedPath === changed || changedPath.startsWith(`${changed}/`))) {
+              cache.delete(filePath);
+            }
+          }
+          templateIndex = null;
+          dataPaths = null;
+          onChange(changedPaths);
+        },
+        onError
+      ),
+  };
+};
+
+/**
+ * A source holding its templates in memory, as a record of relative path (with or without `.md`) to markdown.
+ * YAML and JSON paths of the data directory and `_variables` files are data files instead (see `isDataFile`), other ones are ignored.
+ * Useful for tests and for templates generated or fetched at runtime.
+ */
+export const memorySource = (templates: Record<string, string>): TemplateSource => {
+  const files = new Map<string, TemplateFile>();
+  const dataFiles: DataFile[] = [];
+  for (const [file, markdown] of Object.entries(templates)) {
+    const relativePath = file.replace(/^\/+/, '');
+    if (isDataFile(relativePath)) {
+      dataFiles.push({ path: relativePath, filePath: relativePath, source: markdown });
+      continue;
+    }
+    if (hasDataFileExtension(relativePath)) continue;
+    const templatePath = relativePath.replace(/\.md$/, '');
+    files.set(templatePath, parseTemplateFile(`${templatePath}.md`, markdown));
+  }
+  dataFiles.sort((a, b) => a.path.localeCompare(b.path));
+
+  const templateIndex = indexTemplates(
+    [...files.keys()]
+      .sort()
+      .map((templatePath) => {
+        const { filePath, frontmatter } = files.get(templatePath)!;
+        return createTemplateIndexEntry(templatePath, filePath, frontmatter);
+      })
+  );
+
+  return {
+    list: () => templateIndex.templates,
+    read: (templatePath) => files.get(templatePath) ?? null,
+    resolveId: (id) => templateIndex.ids[id] ?? [],
+    data: () => dataFiles,
+  };
+};
+
+/**
+ * The reference including the template shadowed by the including one, in the next layer having its path.
+ */
+export const SUPER_REFERENCE = 'super';
+
+// A shadowed template is addressed by the path of the shadowing one, followed by one `^` per layer skipped
+// (before the anchor of a section, e.g. "rules/general-rules^#safety")
+export const getSuperPath = (templatePath: string) => {
+  const { templatePath: filePath, section } = splitSectionPath(templatePath);
+  return section === null ? `${filePath}^` : `${filePath}^#${section}`;
+};
+
+// Splits the path of a template into the path it has in its layer and the number of layers it skips
+export const parseLayeredPath = (templatePath: string) => {
+  const [, basePath, skipped] = /^(.*?)(\^*)$/.exec(templatePath)!;
+  return { basePath, skippedLayers: skipped.length };
+};
+
+/**
+ * A source layering several sources into a single tree of templates.
+ * When several layers have a template or a data file at the same path (or declare the same id), the first layer wins
+ * and the others are shadowed: a shadowing template can still include the one it shadows with `{{ super }}`.
+ * Watching the composite watches every layer that can be watched.
+ */
+export const compositeSource = (sources: TemplateSource[]): TemplateSource => {
+  const list = () => {
+    const templates = new Map<string, TemplateIndexEntry>();
+    for (const source of sources) {
+      for (const template of source.list()) {
+        if (!templates.has(template.path)) templates.set(template.path, template);
+      }
+    }
+    return [...templates.keys()].sort().map((templatePath) => templates.get(templatePath)!);
+  };
+
+  return {
+    list,
+    read: (templatePath) => {
+      const { basePath, skippedLayers } = parseLayeredPath(templatePath);
+      let layersLeft = skippedLayers;
+      for (const [index, source] of sources.entries()) {
+        const templateFile = source.read(basePath);
+        if (templateFile === null || layersLeft-- > 0) continue;
+        return { ...templateFile, layer: templateFile.layer ?? source.name ?? `layer ${index + 1}` };
+      }
+      return null;
+    },
+    resolveId: (id) => {
+      // Only the first layer declaring the id is used, templates shadowed by an upper layer excepted
+      const visible = new Set(list());
+      for (const source of sources) {
+        const templates = source.resolveId(id).filter((template) => visible.has(template));
+        if (templates.length > 0) return templates;
+      }
+      return [];
+    },
+    data: () => {
+      // A data file shadows the data files of lower layers at the same path, whatever their extension
+      const dataFiles = new Map<string, DataFile>();
+      for (const source of sources) {
+        for (const dataFile of source.data?.() ?? []) {
+          const dataPath = getDataPath(dataFile.path);
+          if (!dataFiles.has(dataPath)) dataFiles.set(dataPath, dataFile);
+        }
+      }
+      return [...dataFiles.values()].sort((a, b) => a.path.localeCompare(b.path));
+    },
+    watch: sources.some((source) => source.watch)
+      ? (onChange, onError) => {
+          const stops = sources.flatMap((source) => (source.watch ? [source.watch(onChange, onError)] : []));
+          return () => stops.forEach((stop) => stop());
+        }
+      : undefined,
+  };
+};
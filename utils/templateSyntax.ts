@@ -0,0 +1,139 @@
+import { Context, Data, Effect, Option } from 'effect';
+
+import type { ContentReplacement } from './sourceMap';
+
+/**
+ * How tags are written in the templates of a Mosaic instance.
+ *
+ * @property {[string, string]} delimiters - Opening and closing delimiters of references and variables, `{{` and `}}` by default
+ * @property {boolean} expandFencedCode - When true, tags inside fenced code blocks are expanded like any other,
+ * instead of being kept verbatim
+ */
+export interface TemplateSyntax {
+  delimiters: readonly [string, string];
+  expandFencedCode: boolean;
+}
+
+export const DEFAULT_DELIMITERS = ['{{', '}}'] as const;
+
+// Error Types
+class InvalidDelimitersError extends Data.TaggedError('InvalidDelimitersError')<{ message: string }> {}
+
+/**
+ * Fails when custom delimiters are empty or contain whitespace, as they could not tell tags apart from text.
+ */
+export const ensureValidDelimiters = (delimiters: readonly [string, string]) =>
+  Effect.gen(function* () {
+    if (delimiters.some((delimiter) => delimiter === '' || /\s/.test(delimiter))) {
+      return yield* Effect.fail(
+        new InvalidDelimitersError({
+          message: `Invalid delimiters: ${JSON.stringify(delimiters)}. Delimiters must be non-empty and without whitespace.`,
+        })
+      );
+    }
+  });
+
+// Context
+export class Syntax extends Context.Tag('Syntax')<Syntax, TemplateSyntax>() {}
+
+/**
+ * Reads the template syntax from the Syntax service, the default one when it is not provided.
+ */
+export const getSyntax = Effect.serviceOption(Syntax).pipe(
+  Effect.map(
+    Option.getOrElse((): TemplateSyntax => ({ delimiters: DEFAULT_DELIMITERS, expandFencedCode: false }))
+  )
+);
+
+// Literal braces are swapped for private use characters until rendering, so they are never parsed as tags.
+// Swapping one character for another keeps every offset of the content (and of its origin) unchanged.
+const LITERAL_OPEN_BRACE = '\uE000';
+const LITERAL_CLOSE_BRACE = '\uE001';
+
+const protectBraces = (text: string) =>
+  text.replace(/[{}]/g, (brace) => (brace === '{' ? LITERAL_OPEN_BRACE : LITERAL_CLOSE_BRACE));
+
+/**
+ * Turns the literal braces of a prepared content back into braces, once it is rendered.
+ */
+export const restoreLiteralBraces = (text: string) =>
+  text.replace(/[\uE000\uE001]/g, (brace) => (brace === LITERAL_OPEN_BRACE ? '{' : '}'));
+
+const fenceRegex = /^[ \t]*(`{3,}|~{3,})/;
+
+// Splits a content into ranges, telling the fenced code blocks (fence lines included) from the rest
+const splitFencedCode = (content: string) => {
+  const ranges: { start: number; end: number; fenced: boolean }[] = [];
+  let fence: string | null = null;
+  let offset = 0;
+
+  for (const line of content.split(/(?<=\n)/)) {
+    const fenceMatch = fenceRegex.exec(line);
+    const opens: boolean = fenceMatch !== null && fence === null;
+    const fenced = fence !== null || opens;
+    if (fenceMatch && (fence === null || fenceMatch[1].startsWith(fence))) {
+      fence = opens ? fenceMatch[1] : null;
+    }
+
+    const last = ranges.at(-1);
+    if (last !== undefined && last.fenced === fenced) last.end += line.length;
+    else ranges.push({ start: offset, end: offset + line.length, fenced });
+    offset += line.length;
+  }
+  return ranges;
+};
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Prepares the content of a template for parsing: tags written with custom delimiters are rewritten with `{{ }}`,
+ * while escaped tags (`\{{ example }}`), tags inside fenced code blocks and, with custom delimiters, every brace
+ * are kept as literal text. Returns the prepared content and the replacements applied, to update its origin.
+ */
+export const prepareTemplateContent = (content: string, syntax: TemplateSyntax) => {
+  const [open, close] = syntax.delimiters;
+  const customDelimiters = open !== DEFAULT_DELIMITERS[0] || close !== DEFAULT_DELIMITERS[1];
+  const tagRegex = new RegExp(`(\\\\)?${escapeRegExp(open)}([\\s\\S]*?)${escapeRegExp(close)}`, 'g');
+
+  // The content with its literal braces protected, as long as the original one
+  let protectedContent = '';
+  const replacements: ContentReplacement[] = [];
+
+  for (const { start, end, fenced } of splitFencedCode(content)) {
+    const range = content.slice(start, end);
+    if (fenced && !syntax.expandFencedCode) {
+      protectedContent += protectBraces(range);
+      continue;
+    }
+
+    // With custom delimiters, braces outside tags have no meaning
+    const writeText = (text: string) => (protectedContent += customDelimiters ? protectBraces(text) : text);
+    let position = 0;
+    for (const match of range.matchAll(tagRegex)) {
+      writeText(range.slice(position, match.index));
+      const tagStart = start + match.index;
+      const tagEnd = tagStart + match[0].length;
+
+      if (match[1] !== undefined) {
+        // An escaped tag is kept as written, without its backslash
+        replacements.push({ start: tagStart, end: tagStart + 1, replacement: '' });
+        protectedContent += protectBraces(match[0]);
+      } else if (customDelimiters) {
+        replacements.push({ start: tagStart, end: tagStart + open.length, replacement: '{{' });
+        replacements.push({ start: tagEnd - close.length, end: tagEnd, replacement: '}}' });
+        protectedContent += match[0];
+      } else {
+        protectedContent += match[0];
+      }
+      position = match.index + match[0].length;
+    }
+    writeText(range.slice(position));
+  }
+
+  let prepared = protectedContent;
+  for (let i = replacements.length - 1; i >= 0; i--) {
+    const { start, end, replacement } = replacements[i];
+    prepared = prepared.slice(0, start) + replacement + prepared.slice(end);
+  }
+  return { content: prepared, replacements };
+};
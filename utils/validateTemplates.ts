@@ -0,0 +1,212 @@
+import { Effect } from 'effect';
+
+import { parseMarkdown } from './parseMarkdownTemplate';
+import { getProvidedVariables, reportInvalidDataFiles } from './getProvidedVariables';
+import { getDataVariables } from './buildTemplateData';
+import { resolveTemplateOverrides } from './resolveOverrides';
+import type { TemplateVariables } from './decodeVariables';
+import {
+  getVariableDeclarations,
+  getDeclaredDefaults,
+  checkDeclaredVariables,
+} from './checkVariableDeclarations';
+import { reportDiagnostic } from './reportDiagnostic';
+import { Directory } from './normalizeToRelativeSelector';
+import { readTemplateAtPath } from './getTemplateContent';
+import { splitSectionPath } from './templateSection';
+import { getDefaultedVariables } from './variableFilters';
+
+/**
+ * Finds every distinct reference cycle in a graph of template paths.
+ * Each cycle is returned once, starting and ending with the same path (e.g. ['a', 'b', 'a']),
+ * starting with its smallest path. Self-references are not included.
+ */
+const findCycles = (graph: Map<string, string[]>) => {
+  const cycles: string[][] = [];
+
+  // Cycles are searched from their smallest path only, so overlapping cycles are each found once
+  for (const start of [...graph.keys()].sort()) {
+    const onPath = new Set<string>(); // Paths of the branch being explored, cleared when leaving them
+
+    const visit = (current: string, path: string[]) => {
+      onPath.add(current);
+      for (const reference of new Set(graph.get(current) ?? [])) {
+        if (reference === start && path.length > 0) cycles.push([...path, current, start]);
+        else if (reference > start && !onPath.has(reference)) visit(reference, [...path, current]);
+      }
+      onPath.delete(current);
+    };
+
+    visit(start, []);
+  }
+
+  return cycles;
+};
+
+/**
+ * Validates every template of the instructions directory, reporting each problem as a diagnostic:
+ * - broken references ('missing-template', 'unresolved-selector') and invalid selectors ('invalid-selector')
+ * - ids declared by more than one template ('duplicate-id')
+ * - circular reference chains, with the full cycle ('self-reference', 'circular-reference')
+ * - templates that no other template references ('orphan-template', informational since roots are never referenced)
+ * - variables that no provided variable, path-specific override, argument passed by every including slot, declared default
+ *   or `default` filter covers, nor an override inherited from every including template in inheritance mode ('unset-variable')
+ * - frontmatter variable declarations that are invalid, or not satisfied by the provided values
+ * - frontmatter that is not valid YAML ('invalid-frontmatter', an error)
+ * - data files that cannot be read ('invalid-data-file')
+ */
+export const validateTemplates = () =>
+  Effect.gen(function* () {
+    const directory = yield* Directory;
+    const templateIndex = yield* directory.templateIndex;
+    const templatePaths = new Set(templateIndex.templates.map((template) => template.path));
+
+    // Parse every template once, reporting invalid and unresolvable selectors along the way
+    const templates = yield* Effect.forEach(templateIndex.templates, (template) =>
+      parseMarkdown(template.path, [], { evaluateConditions: false }) // Every conditional branch is validated
+    );
+    const graph = new Map(templates.map((template) => [template.path, template.references]));
+
+    // Data files that could not be read
+    yield* reportInvalidDataFiles();
+
+    // Duplicate ids across the whole directory, not only the referenced ones
+    for (const [id, entries] of Object.entries(templateIndex.ids)) {
+      if (entries.length > 1) {
+        yield* reportDiagnostic({
+          kind: 'duplicate-id',
+          severity: 'warning',
+          message: `Multiple markdown files declare the id '#${id}': ${entries.map((entry) => entry.path).join(', ')}`,
+          path: null,
+          selector: `#${id}`,
+          ancestors: [],
+        });
+      }
+    }
+
+    // Broken references and self-references
+    for (const template of templates) {
+      for (const reference of template.references) {
+        // Sections and templates shadowed in a lower layer are not listed, but can be read
+        const exists =
+          templatePaths.has(reference) || (yield* readTemplateAtPath(reference)) !== null;
+        if (!exists) {
+          yield* reportDiagnostic({
+            kind: 'missing-template',
+            severity: 'warning',
+            message: `"${reference}" referenced in ${template.path} does not exist.`,
+            path: template.path,
+            selector: reference,
+            ancestors: [],
+          });
+        } else if (reference === template.path) {
+          yield* reportDiagnostic({
+            kind: 'self-reference',
+            severity: 'warning',
+            message: `[LoopDetectedError] Self-reference detected in ${template.path}.`,
+            path: template.path,
+            selector: reference,
+            ancestors: [],
+          });
+        }
+      }
+    }
+
+    // Circular reference chains, reported at the template closing the cycle
+    for (const cycle of findCycles(graph)) {
+      yield* reportDiagnostic({
+        kind: 'circular-reference',
+        severity: 'warning',
+        message: `[LoopDetectedError] Circular reference chain: ${cycle.join(' -> ')}`,
+        path: cycle[cycle.length - 2],
+        selector: cycle[0],
+        ancestors: cycle.slice(0, -2),
+      });
+    }
+
+    // Templates never referenced by any other template (a referenced section counts for its whole template)
+    const referenced = new Set(
+      templates.flatMap((template) =>
+        template.references
+          .map((reference) => splitSectionPath(reference).templatePath)
+          .filter((reference) => reference !== template.path)
+      )
+    );
+    for (const template of templates) {
+      if (!referenced.has(template.path)) {
+        yield* reportDiagnostic({
+          kind: 'orphan-template',
+          severity: 'info',
+          message: `${template.path} is not referenced by any other template.`,
+          path: template.path,
+          selector: template.path,
+          ancestors: [],
+        });
+      }
+    }
+
+    // Variables not covered by data files, by global variables, by overrides for the template
+    // or by arguments (and inherited overrides) passed by every slot including it
+    const { variables, overrides, inheritOverrides, data, lazyVariables } = yield* getProvidedVariables();
+    const includes = templates.flatMap((template) => Object.values(template.slots));
+    const getCommonArguments = (path: string) => {
+      const [first, ...rest] = includes
+        .filter((include) => include.reference === path)
+        .map((include) => include.arguments);
+      return Object.fromEntries(
+        Object.entries(first ?? {}).filter(([name]) => rest.every((args) => name in args))
+      );
+    };
+    const getInheritedOverrides = (path: string, visiting: string[] = []): TemplateVariables => {
+      if (!inheritOverrides || visiting.includes(path)) return {};
+      const [first, ...rest] = templates
+        .filter((template) => Object.values(template.slots).some((include) => include.reference === path))
+        .map((template) => ({
+          ...getInheritedOverrides(template.path, [...visiting, path]),
+          ...resolveTemplateOverrides(overrides, template),
+        }));
+      return Object.fromEntries(
+        Object.entries(first ?? {}).filter(([name]) => rest.every((inherited) => name in inherited))
+      );
+    };
+
+    for (const template of templates) {
+      const declaringTemplate = { ...template, ancestors: [] };
+      // Lazy variables are not resolved by validation, only assumed to be set
+      const declarations = Object.fromEntries(
+        Object.entries(yield* getVariableDeclarations(declaringTemplate)).filter(
+          ([name]) => !lazyVariables.includes(name)
+        )
+      );
+      const coveredVariables = {
+        ...getDataVariables(data, template.path),
+        ...getDeclaredDefaults(declarations),
+        ...variables,
+        ...getCommonArguments(template.path),
+        ...getInheritedOverrides(template.path),
+        ...resolveTemplateOverrides(overrides, template),
+      };
+      const missingRequired = yield* checkDeclaredVariables(
+        declaringTemplate,
+        declarations,
+        (name) => coveredVariables[name]
+      );
+
+      const defaulted = getDefaultedVariables(template.content);
+      for (const variable of new Set(template.variables)) {
+        if (missingRequired.includes(variable) || lazyVariables.includes(variable)) continue; // Already reported as missing, or lazy
+        if (defaulted.includes(variable)) continue; // Every tag using it gives a default value
+        const value = coveredVariables[variable];
+        if (value === undefined || value === '') {
+          yield* reportDiagnostic({
+            kind: 'unset-variable',
+            severity: 'warning',
+            message: `Variable "$${variable}" used in ${template.path} is not covered by any provided variable, override or argument.`,
+            path: template.path,
+            selector: `$${variable}`,
+            ancestors: [],
+          });
+        }
+      }
+    }
+  });
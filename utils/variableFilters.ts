@@ -0,0 +1,179 @@
+import { Context, Data, Effect, Option } from 'effect';
+
+import type { TemplateVariableValue } from './decodeVariables';
+import { parseLiteral } from './parseReferenceSlot';
+
+/**
+ * Formats the value of a variable piped into it, e.g. `{{ $name | upper }}` or `{{ $tone | default: "friendly" }}`.
+ * Receives the value (undefined when the variable is not set) followed by the arguments written after the filter name,
+ * and returns the value passed to the next filter. An undefined result renders as an empty string.
+ */
+export type VariableFilter = (
+  value: TemplateVariableValue | undefined,
+  ...args: TemplateVariableValue[]
+) => TemplateVariableValue | undefined;
+
+/**
+ * A filter applied to a variable, as written in its tag.
+ *
+ * @property {string} name - Name of the filter (e.g. "default")
+ * @property {TemplateVariableValue[]} arguments - Literal arguments passed to the filter (e.g. ["friendly"])
+ */
+export interface FilterCall {
+  name: string;
+  arguments: TemplateVariableValue[];
+}
+
+// Scalars render as text, arrays and records as JSON
+const stringifyValue = (value: TemplateVariableValue) =>
+  typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const isEmpty = (value: TemplateVariableValue | undefined) =>
+  value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Filters formatting text leave unset variables unset, so a later `default` still applies
+const textFilter =
+  (format: (text: string) => string): VariableFilter =>
+  (value) =>
+    value === undefined ? value : format(stringifyValue(value));
+
+// Filters formatting lists treat a single value as a list of one
+const listFilter =
+  (format: (items: string[], ...args: TemplateVariableValue[]) => string): VariableFilter =>
+  (value, ...args) =>
+    isEmpty(value) ? undefined : format((Array.isArray(value) ? value : [value!]).map(stringifyValue), ...args);
+
+/**
+ * The filters available in every template, before any registered with `registerFilter`.
+ */
+export const builtInFilters: Record<string, VariableFilter> = {
+  upper: textFilter((text) => text.toUpperCase()),
+  lower: textFilter((text) => text.toLowerCase()),
+  capitalize: textFilter((text) => text.charAt(0).toUpperCase() + text.slice(1)),
+  trim: textFilter((text) => text.trim()),
+  json: (value, indent = 2) => (value === undefined ? value : JSON.stringify(value, null, Number(indent))),
+  bullets: listFilter((items) => items.map((item) => `- ${item}`).join('\n')),
+  numbered: listFilter((items) => items.map((item, index) => `${index + 1}. ${item}`).join('\n')),
+  join: listFilter((items, separator = ', ') => items.join(String(separator))),
+  default: (value, fallback = '') => (isEmpty(value) ? fallback : value),
+};
+
+const filterNameRegex = /^[a-zA-Z0-9_\-]+$/;
+
+// Error Types
+class InvalidFilterNameError extends Data.TaggedError('InvalidFilterNameError')<{ message: string }> {}
+
+/**
+ * Fails when a filter name could not be written in a tag.
+ */
+export const ensureValidFilterName = (name: string) =>
+  Effect.gen(function* () {
+    if (!filterNameRegex.test(name)) {
+      return yield* Effect.fail(
+        new InvalidFilterNameError({
+          message: `Invalid filter name: "${name}". Filter names can only contain letters, digits, "_" and "-".`,
+        })
+      );
+    }
+  });
+
+// Context
+export class Filters extends Context.Tag('Filters')<Filters, Record<string, VariableFilter>>() {}
+
+/**
+ * Reads the available filters from the Filters service, the built-in ones when it is not provided.
+ */
+export const getFilters = Effect.serviceOption(Filters).pipe(
+  Effect.map(Option.getOrElse(() => builtInFilters))
+);
+
+// Splits a tag on its pipes, those inside quoted arguments excepted
+const splitPipes = (tag: string) => {
+  const segments = [''];
+  let quote: string | null = null;
+  for (const char of tag) {
+    if (quote !== null) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      segments.push('');
+      continue;
+    }
+    segments[segments.length - 1] += char;
+  }
+  return segments.map((segment) => segment.trim());
+};
+
+const filterCallRegex = /^([a-zA-Z0-9_\-]+)(?:\s*:\s*([\s\S]+))?$/;
+// Commas inside quoted arguments do not split them
+const filterArgumentRegex = /"[^"]*"|'[^']*'|[^,\s]+/g;
+
+/**
+ * Splits the content of a variable tag into the variable it reads and the filters piped after it,
+ * e.g. `$tone | default: "friendly" | upper`. Returns null when the tag has no filters or a filter is not written right.
+ */
+export const parseFilteredTag = (tag: string) => {
+  const [expression, ...calls] = splitPipes(tag);
+  if (calls.length === 0) return null;
+
+  const filters: FilterCall[] = [];
+  for (const call of calls) {
+    const match = filterCallRegex.exec(call);
+    if (!match) return null;
+    const args = [...(match[2] ?? '').matchAll(filterArgumentRegex)].map(
+      ([literal]) => parseLiteral(literal) ?? literal
+    );
+    filters.push({ name: match[1], arguments: args });
+  }
+  return { expression, filters };
+};
+
+/**
+ * The variables of a content that are piped into the `default` filter by every tag using them,
+ * so they are never reported as unset.
+ */
+export const getDefaultedVariables = (content: string) => {
+  const defaulted = new Map<string, boolean>();
+  for (const [, tag, name] of content.matchAll(/\{\{\s*([#^\/]?\$([a-zA-Z0-9_\-]+)[^\}]*)\}\}/g)) {
+    const hasDefault = parseFilteredTag(tag.trim())?.filters.some((filter) => filter.name === 'default') ?? false;
+    defaulted.set(name, (defaulted.get(name) ?? true) && hasDefault);
+  }
+  return [...defaulted].filter(([, hasDefault]) => hasDefault).map(([name]) => name);
+};
+
+/**
+ * A filter that could not be applied while rendering: it does not exist or it threw.
+ */
+export interface FilterFailure {
+  variable: string;
+  filter: string;
+  reason: string | null; // null when the filter does not exist
+}
+
+/**
+ * Pipes a value through filters, in order. Filters that do not exist or throw are skipped and returned as failures,
+ * so the value is still rendered.
+ */
+export const applyFilters = (
+  variable: string,
+  value: TemplateVariableValue | undefined,
+  calls: FilterCall[],
+  filters: Record<string, VariableFilter>
+) => {
+  const failures: FilterFailure[] = [];
+  let filtered = value;
+  for (const call of calls) {
+    const filter = Object.hasOwn(filters, call.name) ? filters[call.name] : undefined;
+    if (filter === undefined) {
+      failures.push({ variable, filter: call.name, reason: null });
+      continue;
+    }
+    try {
+      filtered = filter(filtered, ...call.arguments);
+    } catch (error) {
+      failures.push({ variable, filter: call.name, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { value: filtered, failures };
+};
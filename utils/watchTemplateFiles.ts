@@ -0,0 +1,40 @@
+import path from 'path';
+import fs from 'fs';
+
+// Editors often write a file in several steps: changes are gathered for a short while before being notified
+const CHANGE_BATCH_DELAY_MS = 50;
+
+/**
+ * Watches every file of an instructions directory, subdirectories included.
+ * Changes are batched and notified as paths relative to the directory, with forward slashes and their extension
+ * (e.g. "rules/general-rules.md", or "rules" when a whole directory is renamed or removed).
+ * Errors of the watcher (e.g. the directory being removed) are passed to `onError`, the watch going on when it can.
+ * Returns a function stopping the watch.
+ */
+export const watchTemplateFiles = (
+  instructionsDir: string,
+  onChange: (changedPaths: string[]) => void,
+  onError: (error: unknown) => void = () => {}
+) => {
+  const absInstructionsDir = path.resolve(process.cwd(), instructionsDir);
+  const changedPaths = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+
+  const watcher = fs.watch(absInstructionsDir, { recursive: true }, (_event, fileName) => {
+    if (!fileName) return;
+    changedPaths.add(fileName.toString().split(path.sep).join('/'));
+
+    timer ??= setTimeout(() => {
+      timer = null;
+      const batch = [...changedPaths].sort();
+      changedPaths.clear();
+      onChange(batch);
+    }, CHANGE_BATCH_DELAY_MS);
+  });
+  watcher.on('error', onError);
+
+  return () => {
+    if (timer !== null) clearTimeout(timer);
+    watcher.close();
+  };
+};